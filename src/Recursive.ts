@@ -0,0 +1,59 @@
+// ----- SELF-REFERENCING INTERFACES -----
+export interface TreeNode {
+  value: number;
+  children: TreeNode[];
+  parent?: TreeNode;
+}
+
+export class LinkedList<T> {
+  head: ListNode<T> | null = null;
+  size = 0;
+}
+
+export interface ListNode<T> {
+  value: T;
+  next: ListNode<T> | null;
+  list: LinkedList<T>;
+}
+
+// ----- MUTUALLY RECURSIVE -----
+export interface Department {
+  name: string;
+  head: Employee;
+  staff: Employee[];
+}
+
+export interface Employee {
+  name: string;
+  department: Department;
+  manager?: Employee;
+}
+
+// ----- RECURSIVE ALIASES -----
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | Json[]
+  | { [key: string]: Json };
+
+export type JsonObject = { [key: string]: JsonValue };
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | JsonObject;
+
+export type Expr =
+  | { op: "num"; value: number }
+  | { op: "add"; left: Expr; right: Expr };
+
+export type Visitor = (node: TreeNode, next: Visitor) => Visitor | void;
+
+export type Flatten<T> = T extends (infer U)[] ? Flatten<U> : T;
+export type DeepPartial<T> = { [K in keyof T]?: DeepPartial<T[K]> };
+export type PartialTree = DeepPartial<TreeNode>;
+export type DeepArray<T> = { value: T; deeper: DeepArray<T[]> };
@@ -16,6 +16,26 @@ export enum Color {
   Blue = "blue",
 }
 
+export enum Level {
+  Low = 5,
+  Mid,
+  High,
+}
+export enum Permission {
+  None = 0,
+  Read = 1 << 0,
+  Write = 1 << 1,
+  ReadWrite = Read | Write,
+  Ratio = 0.5,
+  Huge = 2 ** 40,
+  Length = "abc".length,
+}
+export declare enum Ambient {
+  A = 1,
+  B,
+  C = "c",
+}
+
 // ----- TYPE ALIASES/ADVANCED -----
 export type TupleType = [string, number, boolean?];
 export type ReadonlyPoint = Readonly<Point>;
@@ -108,9 +128,24 @@ export function compare(a: number, b: number): number;
 export function compare(a: any, b: any): number {
   return 0;
 }
+export interface Formatter {
+  (value: string): string;
+  (value: number, digits: number): string;
+  new (locale: string): Formatter;
+  onError: (err: Error) => void;
+}
 
 // ----- CONDITIONAL/LITERAL ALIAS -----
 export type MaybeString<T> = T extends string ? string | null : never;
+export type ElementOf<T> = T extends (infer U)[] ? U : never;
+export type ResultOf<T> = T extends { result: infer R extends object }
+  ? R
+  : never;
+export type IsString<T> = [T] extends [string] ? true : false;
+export interface Wrapped<T> {
+  value: MaybeString<T>;
+  inline: T extends number ? "num" : "other";
+}
 
 // ----- ACCESSOR/PROPERTY FLAGS -----
 export class FlagsTest {
@@ -147,3 +182,144 @@ export function move(dir: Direction): void {}
 // ----- UNIONS & MAPPED OVER CONDITIONAL -----
 export type Option<T> = T | null;
 export type AllValues<T> = { [K in keyof T]: T[K] };
+
+// ----- DECLARATION MODIFIERS -----
+export abstract class Repository<T> {
+  abstract find(id: string): T;
+}
+export const enum Mode {
+  Read = 1,
+  Write = 2,
+}
+class InternalCache {
+  size: number = 0;
+}
+export { InternalCache };
+
+// ----- PARAMETER DEFAULTS / OPTIONAL / REST -----
+export function paginate(
+  items: string[],
+  page = 1,
+  offset: number = -1,
+  label?: string,
+  mode: Mode = Mode.Read,
+  ...tags: string[]
+): string[] {
+  return items;
+}
+
+// ----- INDEX SIGNATURES -----
+export interface ScoreBoard {
+  [player: string]: number;
+}
+export interface FrozenList<T> {
+  readonly [index: number]: T;
+  length: number;
+}
+export class Headers {
+  [name: `x-${string}`]: string;
+  host: string = "";
+}
+export type Counters = { [key: string]: number; total: number };
+
+// ----- JSDOC -----
+/**
+ * A registered account.
+ * @example new Account("ada")
+ */
+export class Account {
+  /**
+   * Login handle.
+   * @minLength 3
+   */
+  handle: string;
+  /** @deprecated use handle */
+  username?: string;
+
+  /**
+   * @param handle Initial login handle
+   */
+  constructor(handle: string) {
+    this.handle = handle;
+  }
+}
+
+// ----- HERITAGE -----
+export class UserRepository
+  extends Repository<User>
+  implements Named, Pick<Shape, "area">
+{
+  name = "users";
+  find(id: string): User {
+    return new User(id, this.name);
+  }
+  area(): number {
+    return 0;
+  }
+}
+
+// ----- MEMBER MODIFIERS -----
+const tagKey = "tag";
+export abstract class Modifiers extends Repository<string> {
+  #secret = 1;
+  accessor count = 0;
+  [tagKey]: string = "";
+  [Symbol.iterator](): Iterator<number> {
+    return [this.#secret].values();
+  }
+  override find(id: string): string {
+    return id;
+  }
+  async load(): Promise<void> {}
+  *ids(): Generator<string> {
+    yield "a";
+  }
+  protected abstract reset(): void;
+}
+
+// ----- PARAMETER PROPERTIES -----
+export class Vector3 {
+  constructor(readonly x: number, private y: number, protected z?: number) {}
+}
+
+// ----- TEMPLATE LITERALS / TYPE OPERATORS -----
+export type UserId = `user_${string}`;
+export type Version = `v${number}.${number}`;
+export type PointX = Point["x"];
+export type KeysOf<T> = keyof T;
+export type ValueOf<T> = T[keyof T];
+export class Session {
+  id: UserId = "user_0";
+  version: Version = "v1.0";
+  axis: keyof Point = "x";
+}
+
+// ----- MAPPED TYPE MODIFIERS / KEY REMAPPING -----
+export type Mutable<T> = { -readonly [P in keyof T]: T[P] };
+export type Complete<T> = { [P in keyof T]-?: T[P] };
+export type Getters<T> = {
+  [K in keyof T as `get${Capitalize<string & K>}`]: () => T[K];
+};
+export type MutableShape = Mutable<Shape>;
+
+// ----- BUILTIN CONTAINERS -----
+export class Schedule {
+  createdAt: Date = new Date();
+  pattern: RegExp = /^\d+$/;
+  slots: Map<string, Date[]> = new Map();
+  tags: ReadonlySet<string> = new Set();
+  totals: Record<string, number> = {};
+  history: ReadonlyArray<number> = [];
+  raw?: Uint8Array;
+  next?: Promise<Date>;
+}
+
+// ----- VOID / NEVER / OBJECT / SYMBOL AND BIGINT LITERALS -----
+export declare const TOKEN: unique symbol;
+export interface Primitives {
+  token: typeof TOKEN;
+  big: -10n;
+  payload: object;
+  fail(): never;
+  done(): void;
+}
@@ -210,7 +210,7 @@ console.log("TypeScript RTTI runtime system starting...");
   const allTypes = introspector.listAllTypes();
 
   // Get class properties with types
-  const props = introspector.getTypeProperties("User");
+  const props = introspector.getTypeProperties('"src/User".User');
   console.log("User properties:", props);
 
   // Hydrate an object against a class schema
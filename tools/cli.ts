@@ -83,7 +83,7 @@ async function main(): Promise<void> {
       entry.dataOffset,
       entry.dataOffset + entry.dataLength
     );
-    const decoded = decodeRTTIEntry(buf, (idx) => strings[idx]);
+    const decoded = decodeRTTIEntry(buf, (idx) => strings[idx], header.version);
     console.log(prettyPrintRTTIEntry(decoded, entry.fqName) + "\n");
     // console.log(`[${entry.fqName}]:`, JSON.stringify(decoded, null, 2));
   });
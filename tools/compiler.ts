@@ -3,43 +3,47 @@ import fs from "fs";
 import lz4 from "lz4js";
 import path from "path";
 import ts from "typescript";
-import { extractTypeRTTI, RTTIExtractContext } from "./extractor";
-import { OpCode, Primitive } from "./protocol";
+import {
+  extractIndexSignatures,
+  extractJSDoc,
+  extractParameterModifiers,
+  extractSignatureRTTI,
+  extractTypeNodeRTTI,
+  extractTypeRTTI,
+  getMemberFlags,
+  getMemberName,
+  getQualifiedSymbolName,
+  getSourceLocation,
+  RTTIExtractContext,
+} from "./extractor";
+import { OpCode, Primitive, PROTOCOL_VERSION } from "./protocol";
 import { RTTISerializer } from "./serializer";
+import { SourceMapIndex } from "./sourcemap";
+import { DeclarationModifiers, MemberFlags } from "./types";
 import type {
   MetadataCache,
-  PrimitiveType,
   RTTIClassMetadata,
   RTTIDecorator,
+  RTTIEnumMember,
   RTTIEnumMetadata,
   RTTIFunctionMetadata,
   RTTIGenericParam,
+  RTTIHeritage,
+  RTTIJSDoc,
   RTTIMetadata,
   RTTIMethodOverload,
   RTTIParameter,
   RTTIPropInfo,
+  RTTISourceLocation,
 } from "./types";
 
 const CACHE_PATH = path.join(process.cwd(), "metadata.cache");
-const PROTOCOL_VERSION = 1;
 
 function hashType(meta: RTTIMetadata): string {
   // For highest fidelity, sort & stringify the type shape
   return createHash("sha1").update(JSON.stringify(meta)).digest("hex");
 }
 
-function getPrimitive(type: ts.Type): PrimitiveType {
-  if (type.flags & ts.TypeFlags.Number) return Primitive.Number;
-  if (type.flags & ts.TypeFlags.String) return Primitive.String;
-  if (type.flags & ts.TypeFlags.Boolean) return Primitive.Boolean;
-  if (type.flags & ts.TypeFlags.BigInt) return Primitive.BigInt;
-  if (type.flags & ts.TypeFlags.Null) return Primitive.Null;
-  if (type.flags & ts.TypeFlags.Undefined) return Primitive.Undefined;
-  if (type.flags & ts.TypeFlags.Any) return Primitive.Any;
-  if (type.flags & ts.TypeFlags.Unknown) return Primitive.Unknown;
-  return Primitive.Unknown;
-}
-
 function getCanonicalFqName(node: ts.Node, checker: ts.TypeChecker): string {
   // Works on symbols from declarations as well as on types
   let symbol: ts.Symbol | undefined = (node as any).symbol;
@@ -50,12 +54,105 @@ function getCanonicalFqName(node: ts.Node, checker: ts.TypeChecker): string {
     symbol = checker.getSymbolAtLocation((node as any).name);
   }
   if (symbol) {
-    return checker.getFullyQualifiedName(symbol).replace(/^".*"\./, "");
+    // Keep the module prefix so same-named declarations in different files don't collide
+    return getQualifiedSymbolName(symbol, checker);
   }
   // Fall back to old strategy
   return (node as any).name?.getText?.() ?? "anonymous";
 }
 
+/**
+ * Type parameters are recorded by their simple name, which is what
+ * `{ kind: "typeParam" }` refs owned by the declaration point back to.
+ */
+function extractGenericParams(
+  typeParameters: ts.NodeArray<ts.TypeParameterDeclaration> | undefined,
+  typeChecker: ts.TypeChecker,
+  context: RTTIExtractContext
+): RTTIGenericParam[] {
+  return (typeParameters ?? []).map((tp) => ({
+    name: tp.name.text,
+    constraint: tp.constraint
+      ? extractTypeRTTI(typeChecker.getTypeFromTypeNode(tp.constraint), context)
+      : undefined,
+  }));
+}
+
+/**
+ * DeclarationModifiers bitmask for a top-level declaration. `export { X }`
+ * lists count as exported, not just inline `export` keywords.
+ */
+function getDeclarationModifiers(
+  node: ts.Declaration,
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile
+): number {
+  const flags = ts.getCombinedModifierFlags(node);
+  let modifiers = DeclarationModifiers.None;
+  if (flags & ts.ModifierFlags.Export)
+    modifiers |= DeclarationModifiers.Exported;
+  if (flags & ts.ModifierFlags.Default)
+    modifiers |= DeclarationModifiers.DefaultExport;
+  if (flags & ts.ModifierFlags.Ambient)
+    modifiers |= DeclarationModifiers.Declare;
+  if (flags & ts.ModifierFlags.Abstract)
+    modifiers |= DeclarationModifiers.Abstract;
+  if (ts.isEnumDeclaration(node) && flags & ts.ModifierFlags.Const)
+    modifiers |= DeclarationModifiers.ConstEnum;
+
+  const moduleSymbol = checker.getSymbolAtLocation(sourceFile);
+  const name = ts.getNameOfDeclaration(node);
+  const symbol = name && checker.getSymbolAtLocation(name);
+  if (moduleSymbol && symbol) {
+    for (const exported of checker.getExportsOfModule(moduleSymbol)) {
+      const target =
+        exported.flags & ts.SymbolFlags.Alias
+          ? checker.getAliasedSymbol(exported)
+          : exported;
+      if (target !== symbol) continue;
+      modifiers |= DeclarationModifiers.Exported;
+      if (exported.escapedName === "default")
+        modifiers |= DeclarationModifiers.DefaultExport;
+    }
+  }
+  return modifiers;
+}
+
+/**
+ * `extends` / `implements` clauses, with each base resolved through the
+ * checker to its canonical fqName (following import aliases) and its type
+ * arguments extracted as refs.
+ */
+function extractHeritage(
+  clauses: ts.NodeArray<ts.HeritageClause> | undefined,
+  checker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  context: RTTIExtractContext
+): RTTIHeritage[] {
+  const bases: RTTIHeritage[] = [];
+  for (const hc of clauses ?? []) {
+    const relation =
+      hc.token === ts.SyntaxKind.ImplementsKeyword ? "implements" : "extends";
+    for (const h of hc.types) {
+      let symbol = checker.getSymbolAtLocation(h.expression);
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+        symbol = checker.getAliasedSymbol(symbol);
+      }
+      // Computed bases (`extends Mixin(Base)`) have no symbol of their own;
+      // fall back to the instance type they produce.
+      symbol ??= checker.getTypeAtLocation(h).getSymbol();
+      const fqName = symbol
+        ? getQualifiedSymbolName(symbol, checker)
+        : h.expression.getText(sourceFile);
+      const typeArgs = (h.typeArguments ?? []).map((arg) =>
+        extractTypeRTTI(checker.getTypeFromTypeNode(arg), context)
+      );
+      bases.push({ fqName, relation, typeArgs });
+    }
+  }
+  return bases;
+}
+
 function extractInterfaceMetadata(
   node: ts.InterfaceDeclaration,
   typeChecker: ts.TypeChecker,
@@ -65,34 +162,25 @@ function extractInterfaceMetadata(
   const fqName = getCanonicalFqName(node, typeChecker);
 
   // Extract 'extends' (heritage)
-  const bases: string[] = [];
-  if (node.heritageClauses) {
-    for (const hc of node.heritageClauses) {
-      if (hc.token === ts.SyntaxKind.ExtendsKeyword) {
-        hc.types.forEach((h) => {
-          bases.push(h.expression.getText(sourceFile));
-        });
-      }
-    }
-  }
+  const bases = extractHeritage(
+    node.heritageClauses,
+    typeChecker,
+    sourceFile,
+    context
+  );
 
   const props: RTTIPropInfo[] = [
     ...extractNonMethodProps(node.members, typeChecker, sourceFile, context),
     ...extractMethodGroups(node.members, typeChecker, sourceFile, context),
+    ...extractSignatureMembers(node.members, typeChecker, context),
   ];
 
   // Generics
-  const generics: RTTIGenericParam[] = node.typeParameters
-    ? node.typeParameters.map((tp) => ({
-        name: getCanonicalFqName(tp, typeChecker),
-        constraint: tp.constraint
-          ? extractTypeRTTI(
-              typeChecker.getTypeFromTypeNode(tp.constraint),
-              context
-            )
-          : undefined,
-      }))
-    : [];
+  const generics = extractGenericParams(
+    node.typeParameters,
+    typeChecker,
+    context
+  );
 
   // Decorators (rare on interfaces, but possible with TS plugin support)
   const decorators: RTTIDecorator[] = [];
@@ -103,13 +191,74 @@ function extractInterfaceMetadata(
     }
   });
 
+  // Index signatures ([key: string]: T), own and inherited
+  const indexSignatures = extractIndexSignatures(
+    typeChecker.getTypeAtLocation(node.name),
+    context
+  );
+
   return {
     fqName,
     kind: OpCode.REF_OBJECT, // Still using REF_OBJECT for interfaces
-    data: { props, generics, decorators, bases },
+    data: {
+      props,
+      generics,
+      decorators,
+      bases,
+      indexSignatures,
+    },
   };
 }
 
+/**
+ * Call (`(x): R`) and construct (`new (x): R`) signatures declared on an
+ * interface, surfaced as the synthetic members `__call` and `__new`.
+ */
+function extractSignatureMembers(
+  members: ts.NodeArray<ts.TypeElement>,
+  typeChecker: ts.TypeChecker,
+  context: RTTIExtractContext
+): RTTIPropInfo[] {
+  const calls: RTTIMethodOverload[] = [];
+  const constructs: RTTIMethodOverload[] = [];
+  for (const member of members) {
+    if (
+      !ts.isCallSignatureDeclaration(member) &&
+      !ts.isConstructSignatureDeclaration(member)
+    ) {
+      continue;
+    }
+    const signature = typeChecker.getSignatureFromDeclaration(member);
+    if (!signature) continue;
+    const overload = extractSignatureRTTI(signature, context);
+    (ts.isCallSignatureDeclaration(member) ? calls : constructs).push(overload);
+  }
+
+  const result: RTTIPropInfo[] = [];
+  if (calls.length) {
+    result.push({
+      name: "__call",
+      kind: "method",
+      type: calls[0]!.returnType,
+      flags: 0,
+      decorators: [],
+      overloads: calls,
+    });
+  }
+  if (constructs.length) {
+    result.push({
+      name: "__new",
+      kind: "constructor",
+      type: constructs[0]!.returnType,
+      flags: 0,
+      decorators: [],
+      overloads: constructs,
+      parameters: constructs[0]!.params,
+    });
+  }
+  return result;
+}
+
 function extractClassMetadata(
   node: ts.ClassDeclaration,
   typeChecker: ts.TypeChecker,
@@ -118,37 +267,24 @@ function extractClassMetadata(
 ): RTTIClassMetadata {
   const fqName = getCanonicalFqName(node, typeChecker);
 
-  // Extract Implements
-  const bases: string[] = [];
-  if (node.heritageClauses) {
-    for (const hc of node.heritageClauses) {
-      if (
-        hc.token === ts.SyntaxKind.ImplementsKeyword ||
-        hc.token === ts.SyntaxKind.ExtendsKeyword
-      ) {
-        hc.types.forEach((h) => {
-          bases.push(h.expression.getText(sourceFile));
-        });
-      }
-    }
-  }
+  // Extract extends / implements
+  const bases = extractHeritage(
+    node.heritageClauses,
+    typeChecker,
+    sourceFile,
+    context
+  );
 
   const props: RTTIPropInfo[] = [
     ...extractNonMethodProps(node.members, typeChecker, sourceFile, context),
     ...extractMethodGroups(node.members, typeChecker, sourceFile, context),
   ];
 
-  const generics: RTTIGenericParam[] = node.typeParameters
-    ? node.typeParameters.map((tp) => ({
-        name: getCanonicalFqName(tp, typeChecker),
-        constraint: tp.constraint
-          ? extractTypeRTTI(
-              typeChecker.getTypeFromTypeNode(tp.constraint),
-              context
-            )
-          : undefined,
-      }))
-    : [];
+  const generics = extractGenericParams(
+    node.typeParameters,
+    typeChecker,
+    context
+  );
 
   const decorators: RTTIDecorator[] = [];
   node.forEachChild((child) => {
@@ -157,10 +293,23 @@ function extractClassMetadata(
       if (decorator) decorators.push(decorator);
     }
   });
+
+  // Index signatures on instances ([key: string]: T)
+  const indexSignatures = extractIndexSignatures(
+    typeChecker.getTypeAtLocation(node),
+    context
+  );
+
   return {
     fqName,
     kind: OpCode.REF_CLASS,
-    data: { props, generics, decorators, bases },
+    data: {
+      props,
+      generics,
+      decorators,
+      bases,
+      indexSignatures,
+    },
   };
 }
 
@@ -171,67 +320,96 @@ function extractFunctionMetadata(
   context: RTTIExtractContext
 ): RTTIFunctionMetadata {
   const fqName = getCanonicalFqName(node, typeChecker);
-  // Parameters
-  const params: RTTIParameter[] = [];
-  node.parameters.forEach((param) => {
-    const paramName = param.name.getText(sourceFile);
-    const paramType = param.type
-      ? typeChecker.getTypeFromTypeNode(param.type)
-      : typeChecker.getTypeAtLocation(param);
-    const typeRef = extractTypeRTTI(paramType, context);
-    const paramDecorators: RTTIDecorator[] = [];
-    params.push({
-      name: paramName,
-      type: typeRef,
-      decorators: paramDecorators,
-    });
-  });
-  // Return type
-  let returnType = node.type
-    ? typeChecker.getTypeFromTypeNode(node.type)
-    : typeChecker.getTypeAtLocation(node);
-  const returnTypeRef = extractTypeRTTI(returnType, context);
+
+  // Overloaded functions: bodiless declarations are the public signatures,
+  // the one with a body is the implementation
+  const overloads: RTTIMethodOverload[] = [];
+  let implementation: RTTIMethodOverload | undefined;
+  let implementationNode: ts.FunctionDeclaration | undefined;
+  for (const decl of getFunctionDeclarations(node, typeChecker)) {
+    const signature = extractFunctionSignature(
+      decl,
+      typeChecker,
+      sourceFile,
+      context
+    );
+    if (decl.body) {
+      implementation = signature;
+      implementationNode = decl;
+    } else {
+      overloads.push(signature);
+    }
+  }
+  const primary = implementation ?? overloads[0]!;
+  const isOverloaded = overloads.length + (implementation ? 1 : 0) > 1;
 
   // Generics
-  const generics: RTTIGenericParam[] = node.typeParameters
-    ? node.typeParameters.map((tp) => ({
-        name: getCanonicalFqName(tp, typeChecker),
-        constraint: tp.constraint
-          ? extractTypeRTTI(
-              typeChecker.getTypeFromTypeNode(tp.constraint),
-              context
-            )
-          : undefined,
-      }))
-    : [];
+  const generics = extractGenericParams(
+    (implementationNode ?? node).typeParameters,
+    typeChecker,
+    context
+  );
 
   return {
     fqName,
     kind: OpCode.REF_FUNCTION,
-    data: { params, returnType: returnTypeRef, generics },
+    data: {
+      params: primary.params,
+      returnType: primary.returnType,
+      generics,
+      overloads: isOverloaded ? overloads : undefined,
+      implementation: isOverloaded ? implementation : undefined,
+    },
   };
 }
 
+/**
+ * All declarations of a function symbol, in source order (overloads and
+ * implementation).
+ */
+function getFunctionDeclarations(
+  node: ts.FunctionDeclaration,
+  typeChecker: ts.TypeChecker
+): ts.FunctionDeclaration[] {
+  const symbol = node.name && typeChecker.getSymbolAtLocation(node.name);
+  const declarations = (symbol?.declarations ?? []).filter(
+    ts.isFunctionDeclaration
+  );
+  return declarations.length > 0 ? declarations : [node];
+}
+
+function extractFunctionSignature(
+  node: ts.FunctionDeclaration,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  context: RTTIExtractContext
+): RTTIMethodOverload {
+  // Parameters
+  const params: RTTIParameter[] = node.parameters.map((param) =>
+    extractParameter(param, typeChecker, sourceFile, context)
+  );
+  // Return type (inferred from the body when not annotated)
+  let returnType = node.type
+    ? typeChecker.getTypeFromTypeNode(node.type)
+    : typeChecker.getSignatureFromDeclaration(node)?.getReturnType() ??
+      typeChecker.getAnyType();
+  const returnTypeRef = extractTypeRTTI(returnType, context);
+
+  return { params, returnType: returnTypeRef, decorators: [] };
+}
+
 function extractEnumMetadata(
   node: ts.EnumDeclaration,
   typeChecker: ts.TypeChecker,
   sourceFile: ts.SourceFile
 ): RTTIEnumMetadata {
   const fqName = getCanonicalFqName(node, typeChecker);
-  const members: { name: string; value: string | number }[] = [];
-  node.members.forEach((member) => {
-    const name = member.name.getText(sourceFile);
-    let value: string | number = members.length;
-    if (member.initializer) {
-      if (ts.isNumericLiteral(member.initializer)) {
-        value = Number(member.initializer.text);
-      } else if (ts.isStringLiteral(member.initializer)) {
-        value = member.initializer.text;
-      } else {
-        value = member.initializer.getText(sourceFile);
-      }
-    }
-    members.push({ name, value });
+  const members: RTTIEnumMember[] = node.members.map((member) => {
+    const name = getMemberName(member.name, typeChecker);
+    // Folds `1 << 2`, `A | B`, references and auto-increment alike
+    const value = typeChecker.getConstantValue(member);
+    if (value !== undefined || !member.initializer) return { name, value };
+    return { name, value, initializer: member.initializer.getText(sourceFile) };
   });
   return {
     fqName,
@@ -240,6 +418,38 @@ function extractEnumMetadata(
   };
 }
 
+/**
+ * A declared parameter: name, type, decorators, and optional/rest/default info.
+ */
+function extractParameter(
+  param: ts.ParameterDeclaration,
+  typeChecker: ts.TypeChecker,
+  sourceFile: ts.SourceFile,
+  context: RTTIExtractContext
+): RTTIParameter {
+  const typeRef = param.type
+    ? extractTypeNodeRTTI(param.type, context)
+    : extractTypeRTTI(typeChecker.getTypeAtLocation(param), context);
+  const paramDecorators: RTTIDecorator[] = [];
+  param.forEachChild((child) => {
+    if (ts.isDecorator(child)) {
+      const decorator = extractDecorator(child, sourceFile);
+      if (decorator) paramDecorators.push(decorator);
+    }
+  });
+  return {
+    name: param.name.getText(sourceFile),
+    type: typeRef,
+    decorators: paramDecorators,
+    jsdoc: extractJSDoc(
+      typeChecker.getSymbolAtLocation(param.name),
+      typeChecker
+    ),
+    location: getSourceLocation(param),
+    ...extractParameterModifiers(param, typeChecker),
+  };
+}
+
 /**
  * Extracts all methods (including overloads) into a single RTTIPropInfo per method name.
  */
@@ -257,31 +467,18 @@ function extractMethodGroups(
       decorators: RTTIDecorator[];
       overloads: RTTIMethodOverload[];
       implementation?: RTTIMethodOverload;
+      jsdoc?: RTTIJSDoc;
+      location?: RTTISourceLocation;
     }
   > = new Map();
 
   for (const member of members) {
-    const isMethod =
-      (ts.isMethodDeclaration(member) || ts.isMethodSignature(member)) &&
-      member.name &&
-      ts.isIdentifier(member.name);
-
-    if (!isMethod) continue;
-    const name = (member.name as ts.Identifier).text; // SIMPLE name
-
-    // Flags (handle static, etc.)
-    let flags = 0;
-    if (member.modifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword))
-      flags |= 1 << 0;
-    if (member.modifiers?.some((m) => m.kind === ts.SyntaxKind.ReadonlyKeyword))
-      flags |= 1 << 1;
-    if ("questionToken" in member && member.questionToken) flags |= 1 << 2;
-    if (member.modifiers?.some((m) => m.kind === ts.SyntaxKind.PrivateKeyword))
-      flags |= 1 << 3;
-    else if (
-      member.modifiers?.some((m) => m.kind === ts.SyntaxKind.ProtectedKeyword)
-    )
-      flags |= 1 << 4;
+    if (!ts.isMethodDeclaration(member) && !ts.isMethodSignature(member))
+      continue;
+    const name = getMemberName(member.name, typeChecker); // SIMPLE name
+
+    // Flags (static, async, generator, etc.)
+    const flags = getMemberFlags(member, typeChecker);
 
     // Method decorators (for the declaration)
     const methodDecorators: RTTIDecorator[] = [];
@@ -293,28 +490,15 @@ function extractMethodGroups(
     });
 
     // Parameters (with param-level decorators)
-    const parameters: RTTIParameter[] = (member.parameters ?? []).map(
-      (param) => {
-        const pname = param.name.getText(sourceFile);
-        const pType = param.type
-          ? typeChecker.getTypeFromTypeNode(param.type)
-          : typeChecker.getTypeAtLocation(param);
-        const typeRef = extractTypeRTTI(pType, context);
-        const paramDecorators: RTTIDecorator[] = [];
-        param.forEachChild((child) => {
-          if (ts.isDecorator(child)) {
-            const d = extractDecorator(child, sourceFile);
-            if (d) paramDecorators.push(d);
-          }
-        });
-        return { name: pname, type: typeRef, decorators: paramDecorators };
-      }
+    const parameters: RTTIParameter[] = (member.parameters ?? []).map((param) =>
+      extractParameter(param, typeChecker, sourceFile, context)
     );
 
-    // Return type
+    // Return type (inferred from the body when not annotated)
     const returnType = member.type
       ? typeChecker.getTypeFromTypeNode(member.type)
-      : typeChecker.getTypeAtLocation(member);
+      : typeChecker.getSignatureFromDeclaration(member)?.getReturnType() ??
+        typeChecker.getAnyType();
     const returnTypeRef = extractTypeRTTI(returnType, context);
 
     // The overload signature for this declaration
@@ -330,6 +514,11 @@ function extractMethodGroups(
         flags,
         decorators: [],
         overloads: [],
+        jsdoc: extractJSDoc(
+          typeChecker.getSymbolAtLocation(member.name),
+          typeChecker
+        ),
+        location: getSourceLocation(member),
       });
     }
     const g = methodGroups.get(name)!;
@@ -355,11 +544,16 @@ function extractMethodGroups(
       // Use implementation returnType for quick reference,
       // or use the first overload's returnType as fallback.
       type: group.implementation?.returnType ??
-        group.overloads[0]?.returnType ?? { kind: "primitive", type: 0 },
+        group.overloads[0]?.returnType ?? {
+          kind: "primitive",
+          type: Primitive.Unknown,
+        },
       flags: group.flags,
       decorators: group.decorators,
       overloads: group.overloads.length > 0 ? group.overloads : undefined,
       implementation: group.implementation,
+      jsdoc: group.jsdoc,
+      location: group.location,
       parameters: group.implementation?.params ?? group.overloads[0]?.params,
     });
   }
@@ -383,25 +577,8 @@ export function extractNonMethodProps(
       ts.isPropertyDeclaration(member) ||
       ts.isPropertySignature(member) // for interfaces
     ) {
-      if (!member.name || !ts.isIdentifier(member.name)) continue;
-      const name = (member.name as ts.Identifier).text;
-
-      let flags = 0;
-      if (member.modifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword))
-        flags |= 1 << 0;
-      if (
-        member.modifiers?.some((m) => m.kind === ts.SyntaxKind.ReadonlyKeyword)
-      )
-        flags |= 1 << 1;
-      if ("questionToken" in member && member.questionToken) flags |= 1 << 2;
-      if (
-        member.modifiers?.some((m) => m.kind === ts.SyntaxKind.PrivateKeyword)
-      )
-        flags |= 1 << 3;
-      else if (
-        member.modifiers?.some((m) => m.kind === ts.SyntaxKind.ProtectedKeyword)
-      )
-        flags |= 1 << 4;
+      const name = getMemberName(member.name, typeChecker);
+      const flags = getMemberFlags(member, typeChecker);
 
       const propDecorators: RTTIDecorator[] = [];
       member.forEachChild((child) => {
@@ -411,10 +588,9 @@ export function extractNonMethodProps(
         }
       });
 
-      const propType = member.type
-        ? typeChecker.getTypeFromTypeNode(member.type)
-        : typeChecker.getTypeAtLocation(member);
-      const typeRef = extractTypeRTTI(propType, context);
+      const typeRef = member.type
+        ? extractTypeNodeRTTI(member.type, context)
+        : extractTypeRTTI(typeChecker.getTypeAtLocation(member), context);
 
       props.push({
         name,
@@ -422,46 +598,23 @@ export function extractNonMethodProps(
         type: typeRef,
         flags,
         decorators: propDecorators,
+        jsdoc: extractJSDoc(
+          typeChecker.getSymbolAtLocation(member.name),
+          typeChecker
+        ),
+        location: getSourceLocation(member),
       });
     }
 
     // Accessors (get/set)
-    if (
-      (ts.isGetAccessor(member) || ts.isSetAccessor(member)) &&
-      member.name &&
-      ts.isIdentifier(member.name)
-    ) {
-      const accessorName = (member.name as ts.Identifier).text;
-      let flags = 0;
-      if (
-        member.modifiers?.some((m) => m.kind === ts.SyntaxKind.PrivateKeyword)
-      )
-        flags |= 1 << 3;
-      else if (
-        member.modifiers?.some((m) => m.kind === ts.SyntaxKind.ProtectedKeyword)
-      )
-        flags |= 1 << 4;
+    if (ts.isGetAccessor(member) || ts.isSetAccessor(member)) {
+      const accessorName = getMemberName(member.name, typeChecker);
+      const flags = getMemberFlags(member, typeChecker);
 
       const parameters: RTTIParameter[] =
-        member.parameters?.map((param) => {
-          const paramName = param.name.getText(sourceFile);
-          const paramType = param.type
-            ? typeChecker.getTypeFromTypeNode(param.type)
-            : typeChecker.getTypeAtLocation(param);
-          const typeRef = extractTypeRTTI(paramType, context);
-          const paramDecorators: RTTIDecorator[] = [];
-          param.forEachChild((child) => {
-            if (ts.isDecorator(child)) {
-              const decorator = extractDecorator(child, sourceFile);
-              if (decorator) paramDecorators.push(decorator);
-            }
-          });
-          return {
-            name: paramName,
-            type: typeRef,
-            decorators: paramDecorators,
-          };
-        }) ?? [];
+        member.parameters?.map((param) =>
+          extractParameter(param, typeChecker, sourceFile, context)
+        ) ?? [];
 
       const accessorDecorators: RTTIDecorator[] = [];
       member.forEachChild((child) => {
@@ -471,8 +624,11 @@ export function extractNonMethodProps(
         }
       });
 
+      // Setters carry their type on the value parameter
       const accessorType = member.type
         ? typeChecker.getTypeFromTypeNode(member.type)
+        : ts.isSetAccessor(member) && member.parameters[0]
+        ? typeChecker.getTypeAtLocation(member.parameters[0])
         : typeChecker.getTypeAtLocation(member);
 
       const typeRef = extractTypeRTTI(accessorType, context);
@@ -480,42 +636,61 @@ export function extractNonMethodProps(
       props.push({
         name: accessorName,
         kind: "accessor",
+        accessor: ts.isGetAccessor(member) ? "get" : "set",
         type: typeRef,
         flags,
         decorators: accessorDecorators,
         parameters,
+        // Per declaration: getter and setter share one symbol
+        jsdoc: extractJSDoc(
+          typeChecker.getSignatureFromDeclaration(member),
+          typeChecker
+        ),
+        location: getSourceLocation(member),
       });
     }
 
     // Constructors (classes only)
     if (ts.isConstructorDeclaration(member)) {
-      const parameters: RTTIParameter[] = member.parameters.map((param) => {
-        const paramName = param.name.getText(sourceFile);
-        const paramType = param.type
-          ? typeChecker.getTypeFromTypeNode(param.type)
-          : typeChecker.getTypeAtLocation(param);
-        const typeRef = extractTypeRTTI(paramType, context);
-        const paramDecorators: RTTIDecorator[] = [];
-        param.forEachChild((child) => {
-          if (ts.isDecorator(child)) {
-            const decorator = extractDecorator(child, sourceFile);
-            if (decorator) paramDecorators.push(decorator);
-          }
+      const parameters: RTTIParameter[] = member.parameters.map((param) =>
+        extractParameter(param, typeChecker, sourceFile, context)
+      );
+
+      // Parameter properties (`constructor(public x: T)`) are fields too,
+      // unless the class also declares the field itself
+      member.parameters.forEach((param, i) => {
+        if (!ts.isParameterPropertyDeclaration(param, member)) return;
+        const name = param.name.text;
+        const declared = members.some(
+          (m) =>
+            ts.isPropertyDeclaration(m) &&
+            getMemberName(m.name, typeChecker) === name
+        );
+        if (declared) return;
+        props.push({
+          name,
+          kind: "property",
+          type: parameters[i]!.type,
+          flags:
+            getMemberFlags(param, typeChecker) | MemberFlags.ParameterProperty,
+          decorators: [],
+          jsdoc: parameters[i]!.jsdoc,
+          location: parameters[i]!.location,
         });
-        return {
-          name: paramName,
-          type: typeRef,
-          decorators: paramDecorators,
-        };
       });
 
       props.push({
         name: "constructor",
         kind: "constructor",
-        type: { kind: "primitive", type: 1 as PrimitiveType }, // e.g. "void"
+        type: { kind: "primitive", type: Primitive.Void },
         flags: 0,
         decorators: [],
         parameters,
+        jsdoc: extractJSDoc(
+          typeChecker.getSignatureFromDeclaration(member),
+          typeChecker
+        ),
+        location: getSourceLocation(member),
       });
     }
   }
@@ -543,6 +718,52 @@ function extractDecorator(
   return undefined;
 }
 
+/**
+ * Every source location recorded on an entry: the declaration itself, its
+ * members, and all parameters of its signatures.
+ */
+function collectLocations(meta: RTTIMetadata): RTTISourceLocation[] {
+  const data = meta.data as any;
+  const locations: (RTTISourceLocation | undefined)[] = [meta.location];
+  const addSignature = (sig: RTTIMethodOverload | undefined) =>
+    sig?.params.forEach((p) => locations.push(p.location));
+  const addCallable = (c: {
+    params?: RTTIParameter[];
+    parameters?: RTTIParameter[];
+    overloads?: RTTIMethodOverload[];
+    implementation?: RTTIMethodOverload;
+  }) => {
+    (c.params ?? c.parameters ?? []).forEach((p) => locations.push(p.location));
+    c.overloads?.forEach(addSignature);
+    addSignature(c.implementation);
+  };
+  if (data && typeof data === "object") {
+    addCallable(data);
+    for (const prop of (data.props ?? []) as RTTIPropInfo[]) {
+      locations.push(prop.location);
+      addCallable(prop);
+    }
+  }
+  return locations.filter((l): l is RTTISourceLocation => !!l);
+}
+
+function isTopLevelDeclaration(
+  node: ts.Node
+): node is
+  | ts.InterfaceDeclaration
+  | ts.ClassDeclaration
+  | ts.FunctionDeclaration
+  | ts.EnumDeclaration
+  | ts.TypeAliasDeclaration {
+  return (
+    ts.isInterfaceDeclaration(node) ||
+    ts.isClassDeclaration(node) ||
+    ts.isFunctionDeclaration(node) ||
+    ts.isEnumDeclaration(node) ||
+    ts.isTypeAliasDeclaration(node)
+  );
+}
+
 async function main(): Promise<void> {
   // --- Load or initialize cache
   let cache: MetadataCache = fs.existsSync(CACHE_PATH)
@@ -568,15 +789,29 @@ async function main(): Promise<void> {
     ts.sys,
     path.dirname(configPath)
   );
-  const program = ts.createProgram(parsed.fileNames, parsed.options);
+  // --source-map: also point locations at the emitted JS (in-memory emit)
+  const emittedLocations = process.argv.includes("--source-map");
+  const program = ts.createProgram(parsed.fileNames, {
+    ...parsed.options,
+    sourceMap: parsed.options.sourceMap || emittedLocations,
+  });
   const typeChecker = program.getTypeChecker();
 
   // === Key Change: shared RTTI context
   const rttiMap: Map<string, RTTIMetadata> = new Map();
-  const context: RTTIExtractContext = { typeChecker, rttiMap, fqPrefix: "" };
+  const context: RTTIExtractContext = {
+    typeChecker,
+    rttiMap,
+    visiting: new Map(),
+    typeDepth: 0,
+    // --resolve-mapped: store the property lists of concrete mapped types
+    resolveMappedProps: process.argv.includes("--resolve-mapped"),
+  };
 
   // === Track all fqNames seen from exports/top-levels
   const exportedFQNames = new Set<string>();
+  // --exported-only: skip top-level declarations that aren't exported
+  const exportedOnly = process.argv.includes("--exported-only");
 
   for (const sourceFile of program.getSourceFiles()) {
     if (
@@ -591,6 +826,10 @@ async function main(): Promise<void> {
     let typeHashes: Record<string, string> = {};
     ts.forEachChild(sourceFile, (node) => {
       let meta: RTTIMetadata | null = null;
+      const modifiers = isTopLevelDeclaration(node)
+        ? getDeclarationModifiers(node, typeChecker, sourceFile)
+        : DeclarationModifiers.None;
+      if (exportedOnly && !(modifiers & DeclarationModifiers.Exported)) return;
       // === INTERFACE EXTRACTION ===
       if (ts.isInterfaceDeclaration(node) && node.name) {
         meta = extractInterfaceMetadata(node, typeChecker, sourceFile, context);
@@ -604,7 +843,12 @@ async function main(): Promise<void> {
       }
 
       // === FUNCTION EXTRACTION ===
-      if (ts.isFunctionDeclaration(node) && node.name) {
+      // Overloads are gathered from the first declaration only
+      if (
+        ts.isFunctionDeclaration(node) &&
+        node.name &&
+        getFunctionDeclarations(node, typeChecker)[0] === node
+      ) {
         meta = extractFunctionMetadata(node, typeChecker, sourceFile, context);
         rttiMap.set(meta.fqName, meta);
       }
@@ -618,8 +862,7 @@ async function main(): Promise<void> {
       // === TYPE ALIAS EXTRACTION ===
       if (ts.isTypeAliasDeclaration(node) && node.name) {
         const fqName = getCanonicalFqName(node, typeChecker);
-        const aliasedType = typeChecker.getTypeFromTypeNode(node.type);
-        const ref = extractTypeRTTI(aliasedType, context);
+        const ref = extractTypeNodeRTTI(node.type, context);
 
         if (ref.kind === "ref") {
           const realMeta = rttiMap.get(ref.fqName);
@@ -635,6 +878,23 @@ async function main(): Promise<void> {
         }
       }
 
+      // Stamp modifiers on the entry this declaration produced (aliases
+      // included, which don't go through `meta`)
+      if (isTopLevelDeclaration(node)) {
+        const fqName = getCanonicalFqName(node, typeChecker);
+        const declared = rttiMap.get(fqName);
+        if (declared) {
+          declared.modifiers = modifiers;
+          declared.jsdoc = extractJSDoc(
+            node.name && typeChecker.getSymbolAtLocation(node.name),
+            typeChecker
+          );
+          declared.location = getSourceLocation(node);
+        }
+        if (modifiers & DeclarationModifiers.Exported)
+          exportedFQNames.add(fqName);
+      }
+
       if (meta) {
         const fqName = meta.fqName;
         const typeHash = hashType(meta);
@@ -661,7 +921,35 @@ async function main(): Promise<void> {
       types: Array.from(rttiMap.values()),
     };
   }
-  const allTypes: RTTIMetadata[] = Array.from(rttiMap.values());
+  let allTypes: RTTIMetadata[] = Array.from(rttiMap.values());
+
+  if (emittedLocations) {
+    // The metas are also the cache's entries, hashed without emitted
+    // positions; add them to copies so the cache stays valid without the flag
+    allTypes = allTypes.map((meta) => structuredClone(meta));
+    const maps = new SourceMapIndex();
+    program.emit(undefined, (fileName, text) => {
+      if (fileName.endsWith(".js.map")) maps.add(fileName, JSON.parse(text));
+    });
+    for (const meta of allTypes) {
+      for (const loc of collectLocations(meta)) {
+        const emitted = maps.generatedPositionFor(
+          loc.file,
+          loc.line,
+          loc.column
+        );
+        if (emitted) {
+          loc.emitted = {
+            ...emitted,
+            file: path
+              .relative(process.cwd(), emitted.file)
+              .split(path.sep)
+              .join("/"),
+          };
+        }
+      }
+    }
+  }
 
   // Prune orphaned types in cache.types (optional, for deleted types)
   const usedTypes = new Set(allTypes.map((t) => t.fqName));
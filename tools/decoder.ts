@@ -1,11 +1,32 @@
-import { decodeVarint, OpCode } from "./protocol";
-import type { PrimitiveType, RTTITypeRef } from "./types";
+import {
+  decodeMemberKind,
+  decodePrimitiveCode,
+  decodeVarint,
+  OpCode,
+  PROTOCOL_VERSION,
+  ProtocolVersion,
+} from "./protocol";
+import { DeclarationModifiers, ParameterFlags, PrimitiveTypes } from "./types";
+import type {
+  RTTIEnumMember,
+  RTTIGenericParam,
+  RTTIHeritage,
+  RTTIIndexSignature,
+  RTTIJSDoc,
+  RTTIMetadata,
+  RTTIMethodOverload,
+  RTTIParameter,
+  RTTIPropInfo,
+  RTTISourceLocation,
+  RTTITypeRef,
+} from "./types";
 
 // --- RTTITypeRef decoder helper ---
 function decodeRTTITypeRef(
   buf: Uint8Array,
   offset: number,
-  getString: (idx: number) => string
+  getString: (idx: number) => string,
+  version: number
 ): { ref: RTTITypeRef; next: number } {
   const tagDecode = decodeVarint(buf, offset);
   const tag = tagDecode.value;
@@ -14,9 +35,28 @@ function decodeRTTITypeRef(
     const primDecode = decodeVarint(buf, offset);
     offset = primDecode.next;
     return {
-      ref: { kind: "primitive", type: primDecode.value as PrimitiveType },
+      ref: {
+        kind: "primitive",
+        type: decodePrimitiveCode(primDecode.value, version),
+      },
       next: offset,
     };
+  } else if (tag === 2) {
+    const nameDecode = decodeVarint(buf, offset);
+    offset = nameDecode.next;
+    const ref: RTTITypeRef = {
+      kind: "typeParam",
+      name: getString(nameDecode.value),
+    };
+    if (version >= ProtocolVersion.TypeParamOwners) {
+      const ownerDecode = decodeVarint(buf, offset);
+      offset = ownerDecode.next;
+      const owner = getString(ownerDecode.value);
+      if (owner) ref.owner = owner;
+    }
+    return { ref, next: offset };
+  } else if (tag === 3) {
+    return { ref: { kind: "this" }, next: offset };
   } else {
     const idxDecode = decodeVarint(buf, offset);
     offset = idxDecode.next;
@@ -27,19 +67,358 @@ function decodeRTTITypeRef(
   }
 }
 
-export function decodeRTTIEntry(
+function decodeDecoratorList(
   buf: Uint8Array,
+  offset: number,
   getString: (idx: number) => string
-): any {
+): { decorators: { name: string; args: string[] }[]; next: number } {
+  const decoCt = decodeVarint(buf, offset).value;
+  offset = decodeVarint(buf, offset).next;
+  const decorators: { name: string; args: string[] }[] = [];
+  for (let d = 0; d < decoCt; d++) {
+    const decoNameIdx = decodeVarint(buf, offset).value;
+    offset = decodeVarint(buf, offset).next;
+    const argCount = decodeVarint(buf, offset).value;
+    offset = decodeVarint(buf, offset).next;
+    const args: string[] = [];
+    for (let a = 0; a < argCount; a++) {
+      const argIdx = decodeVarint(buf, offset).value;
+      offset = decodeVarint(buf, offset).next;
+      args.push(getString(argIdx));
+    }
+    decorators.push({ name: getString(decoNameIdx), args });
+  }
+  return { decorators, next: offset };
+}
+
+// --- JSDoc decoder (mirrors serializeJSDoc) ---
+function decodeJSDoc(
+  buf: Uint8Array,
+  offset: number,
+  getString: (idx: number) => string,
+  version: number
+): { jsdoc: RTTIJSDoc | undefined; next: number } {
+  if (version < ProtocolVersion.JSDoc)
+    return { jsdoc: undefined, next: offset };
+  if (buf[offset++] !== 1) return { jsdoc: undefined, next: offset };
+  const summary = getString(decodeVarint(buf, offset).value);
+  offset = decodeVarint(buf, offset).next;
+  const tagCt = decodeVarint(buf, offset).value;
+  offset = decodeVarint(buf, offset).next;
+  const tags: { name: string; text: string }[] = [];
+  for (let t = 0; t < tagCt; t++) {
+    const name = getString(decodeVarint(buf, offset).value);
+    offset = decodeVarint(buf, offset).next;
+    const text = getString(decodeVarint(buf, offset).value);
+    offset = decodeVarint(buf, offset).next;
+    tags.push({ name, text });
+  }
+  return { jsdoc: { summary, tags }, next: offset };
+}
+
+// --- Source location decoder (mirrors serializeLocation) ---
+function decodeLocation(
+  buf: Uint8Array,
+  offset: number,
+  getString: (idx: number) => string,
+  version: number
+): { location: RTTISourceLocation | undefined; next: number } {
+  if (version < ProtocolVersion.SourceLocations)
+    return { location: undefined, next: offset };
+  if (buf[offset++] !== 1) return { location: undefined, next: offset };
+  const readPosition = () => {
+    const file = getString(decodeVarint(buf, offset).value);
+    offset = decodeVarint(buf, offset).next;
+    const line = decodeVarint(buf, offset).value;
+    offset = decodeVarint(buf, offset).next;
+    const column = decodeVarint(buf, offset).value;
+    offset = decodeVarint(buf, offset).next;
+    return { file, line, column };
+  };
+  const location: RTTISourceLocation = readPosition();
+  if (buf[offset++] === 1) location.emitted = readPosition();
+  return { location, next: offset };
+}
+
+// --- Parameter decoder (mirrors serializeParameter) ---
+function decodeParameter(
+  buf: Uint8Array,
+  offset: number,
+  getString: (idx: number) => string,
+  version: number
+): { param: RTTIParameter; next: number } {
+  const nameIdx = decodeVarint(buf, offset).value;
+  offset = decodeVarint(buf, offset).next;
+  const typeDec = decodeRTTITypeRef(buf, offset, getString, version);
+  offset = typeDec.next;
+  const decoDec = decodeDecoratorList(buf, offset, getString);
+  offset = decoDec.next;
+  const docDec = decodeJSDoc(buf, offset, getString, version);
+  offset = docDec.next;
+  const locDec = decodeLocation(buf, offset, getString, version);
+  offset = locDec.next;
+  let flags = ParameterFlags.None as number;
+  if (version >= ProtocolVersion.ParameterFlags) {
+    flags = decodeVarint(buf, offset).value;
+    offset = decodeVarint(buf, offset).next;
+  }
+  const param: RTTIParameter = {
+    name: getString(nameIdx),
+    type: typeDec.ref,
+    decorators: decoDec.decorators,
+    jsdoc: docDec.jsdoc,
+    location: locDec.location,
+    flags,
+  };
+  if (flags & ParameterFlags.HasDefault) {
+    param.defaultText = getString(decodeVarint(buf, offset).value);
+    offset = decodeVarint(buf, offset).next;
+    const tag = decodeVarint(buf, offset).value;
+    offset = decodeVarint(buf, offset).next;
+    if (tag === 1) {
+      param.defaultValue = getString(decodeVarint(buf, offset).value);
+      offset = decodeVarint(buf, offset).next;
+    } else if (tag === 2) {
+      const view = new DataView(buf.buffer, buf.byteOffset + offset, 8);
+      param.defaultValue = view.getFloat64(0, true);
+      offset += 8;
+    } else if (tag === 3) {
+      param.defaultValue = buf[offset++] === 1;
+    } else if (tag === 4) {
+      param.defaultValue = null;
+    }
+  }
+  return { param, next: offset };
+}
+
+// --- Method/function overload decoder (mirrors serializeMethodOverload) ---
+function decodeMethodOverload(
+  buf: Uint8Array,
+  offset: number,
+  getString: (idx: number) => string,
+  version: number
+): { overload: RTTIMethodOverload; next: number } {
+  const paramCt = decodeVarint(buf, offset).value;
+  offset = decodeVarint(buf, offset).next;
+  const params: RTTIParameter[] = [];
+  for (let p = 0; p < paramCt; p++) {
+    const paramDec = decodeParameter(buf, offset, getString, version);
+    params.push(paramDec.param);
+    offset = paramDec.next;
+  }
+  const returnTypeDec = decodeRTTITypeRef(buf, offset, getString, version);
+  offset = returnTypeDec.next;
+  const decoDec = decodeDecoratorList(buf, offset, getString);
+  offset = decoDec.next;
+  return {
+    overload: {
+      params,
+      returnType: returnTypeDec.ref,
+      decorators: decoDec.decorators,
+    },
+    next: offset,
+  };
+}
+
+// Presence byte, then a RTTITypeRef if set
+function decodeOptionalTypeRef(
+  buf: Uint8Array,
+  offset: number,
+  getString: (idx: number) => string,
+  version: number
+): { ref?: RTTITypeRef; next: number } {
+  if (buf[offset++] !== 1) return { next: offset };
+  return decodeRTTITypeRef(buf, offset, getString, version);
+}
+
+// --- Class/interface member decoder (mirrors serializeProp) ---
+function decodeProp(
+  buf: Uint8Array,
+  offset: number,
+  getString: (idx: number) => string,
+  version: number
+): { prop: RTTIPropInfo; next: number } {
+  const nameIdx = decodeVarint(buf, offset).value;
+  offset = decodeVarint(buf, offset).next;
+
+  // RTTITypeRef decode!
+  const typeDecode = decodeRTTITypeRef(buf, offset, getString, version);
+  const type = typeDecode.ref;
+  offset = typeDecode.next;
+
+  const flags = decodeVarint(buf, offset).value;
+  offset = decodeVarint(buf, offset).next;
+  let memberKind: Pick<RTTIPropInfo, "kind" | "accessor"> = {};
+  if (version >= ProtocolVersion.MemberKinds) {
+    memberKind = decodeMemberKind(decodeVarint(buf, offset).value);
+    offset = decodeVarint(buf, offset).next;
+  }
+  const memberDoc = decodeJSDoc(buf, offset, getString, version);
+  offset = memberDoc.next;
+  const memberLoc = decodeLocation(buf, offset, getString, version);
+  offset = memberLoc.next;
+
+  // member decorators
+  const decoDec = decodeDecoratorList(buf, offset, getString);
+  offset = decoDec.next;
+
+  // parameters (for methods, accessors, ctors)
+  const paramCt = decodeVarint(buf, offset).value;
+  offset = decodeVarint(buf, offset).next;
+  let parameters: RTTIParameter[] | undefined = undefined;
+  if (paramCt > 0) {
+    parameters = [];
+    for (let p = 0; p < paramCt; p++) {
+      const paramDec = decodeParameter(buf, offset, getString, version);
+      parameters.push(paramDec.param);
+      offset = paramDec.next;
+    }
+  }
+
+  // overloads + implementation (methods, ctors)
+  let overloads: RTTIMethodOverload[] | undefined = undefined;
+  let implementation: RTTIMethodOverload | undefined = undefined;
+  if (version >= ProtocolVersion.MemberOverloads) {
+    const overloadCt = decodeVarint(buf, offset).value;
+    offset = decodeVarint(buf, offset).next;
+    if (overloadCt > 0) {
+      overloads = [];
+      for (let o = 0; o < overloadCt; o++) {
+        const ovlDec = decodeMethodOverload(buf, offset, getString, version);
+        overloads.push(ovlDec.overload);
+        offset = ovlDec.next;
+      }
+    }
+    if (buf[offset++] === 1) {
+      const implDec = decodeMethodOverload(buf, offset, getString, version);
+      implementation = implDec.overload;
+      offset = implDec.next;
+    }
+  }
+  return {
+    prop: {
+      name: getString(nameIdx),
+      ...memberKind,
+      type,
+      flags,
+      decorators: decoDec.decorators,
+      parameters,
+      overloads,
+      implementation,
+      jsdoc: memberDoc.jsdoc,
+      location: memberLoc.location,
+    },
+    next: offset,
+  };
+}
+
+// Enum values before EnumValueTags: 0xff + int32 LE, or inline UTF-8 text
+function decodeLegacyEnumValue(
+  buf: Uint8Array,
+  offset: number
+): { value: string | number; next: number } {
+  if (buf[offset] === 0xff) {
+    if (offset + 4 >= buf.length) {
+      throw new Error(
+        "Unexpected end of buffer while reading enum numeric value"
+      );
+    }
+    const view = new DataView(buf.buffer, buf.byteOffset + offset + 1, 4);
+    return { value: view.getInt32(0, true), next: offset + 5 };
+  }
+  const strLenDecode = decodeVarint(buf, offset);
+  const start = strLenDecode.next;
+  const end = start + strLenDecode.value;
+  return {
+    value: new TextDecoder().decode(buf.slice(start, end)),
+    next: end,
+  };
+}
+
+// Decoded entries carry their metadata's `data` fields next to the kind
+type FlattenedMetadata<M> = M extends { kind: infer K; data: infer D }
+  ? { kind: K } & D
+  : never;
+
+export type DecodedRTTIEntry = FlattenedMetadata<RTTIMetadata> & {
+  modifiers: number;
+  jsdoc?: RTTIJSDoc;
+  location?: RTTISourceLocation;
+  exported: boolean;
+  defaultExport: boolean;
+  declare: boolean;
+  abstract: boolean;
+  constEnum: boolean;
+};
+
+/**
+ * Decodes one heap entry. Pass the file header's version for files written
+ * by older compilers (see MetadataStore.getVersion).
+ */
+export function decodeRTTIEntry(
+  buf: Uint8Array,
+  getString: (idx: number) => string,
+  version: number = PROTOCOL_VERSION
+): DecodedRTTIEntry {
   let offset = 0;
-  const kind = buf[offset++];
+  const kind = buf[offset++]!;
   // FQ name index (varint, usually can be skipped for external lookup)
   offset = decodeVarint(buf, offset).next;
+  // Declaration modifiers
+  let modifiers = DeclarationModifiers.None as number;
+  if (version >= ProtocolVersion.EntryModifiers) {
+    const modifiersDecode = decodeVarint(buf, offset);
+    modifiers = modifiersDecode.value;
+    offset = modifiersDecode.next;
+  }
+  const docDec = decodeJSDoc(buf, offset, getString, version);
+  offset = docDec.next;
+  const locDec = decodeLocation(buf, offset, getString, version);
+  offset = locDec.next;
 
+  return {
+    ...decodeRTTIEntryData(buf, kind, offset, getString, version),
+    modifiers,
+    jsdoc: docDec.jsdoc,
+    location: locDec.location,
+    exported: (modifiers & DeclarationModifiers.Exported) !== 0,
+    defaultExport: (modifiers & DeclarationModifiers.DefaultExport) !== 0,
+    declare: (modifiers & DeclarationModifiers.Declare) !== 0,
+    abstract: (modifiers & DeclarationModifiers.Abstract) !== 0,
+    constEnum: (modifiers & DeclarationModifiers.ConstEnum) !== 0,
+  };
+}
+
+function decodeRTTIEntryData(
+  buf: Uint8Array,
+  kind: number,
+  offset: number,
+  getString: (idx: number) => string,
+  version: number
+): any {
   switch (kind) {
     case OpCode.REF_PRIMITIVE: {
       const value = decodeVarint(buf, offset).value;
-      return { kind: OpCode.REF_PRIMITIVE, type: value };
+      return {
+        kind: OpCode.REF_PRIMITIVE,
+        type: decodePrimitiveCode(value, version),
+      };
+    }
+    case OpCode.REF_LITERAL: {
+      const typeDecode = decodeVarint(buf, offset);
+      const type = decodePrimitiveCode(typeDecode.value, version);
+      offset = typeDecode.next;
+      let value: string | number | boolean | bigint;
+      if (type === PrimitiveTypes.Number) {
+        const view = new DataView(buf.buffer, buf.byteOffset + offset, 8);
+        value = view.getFloat64(0, true);
+      } else if (type === PrimitiveTypes.Boolean) {
+        value = buf[offset] === 1;
+      } else {
+        const text = getString(decodeVarint(buf, offset).value);
+        value = type === PrimitiveTypes.BigInt ? BigInt(text) : text;
+      }
+      return { kind, type, value };
     }
     case OpCode.REF_CLASS:
     case OpCode.REF_OBJECT: {
@@ -49,79 +428,9 @@ export function decodeRTTIEntry(
       offset = propCtDecode.next;
 
       for (let i = 0; i < propCount; i++) {
-        const nameIdx = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-
-        // RTTITypeRef decode!
-        const typeDecode = decodeRTTITypeRef(buf, offset, getString);
-        const type = typeDecode.ref;
-        offset = typeDecode.next;
-
-        const flags = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-
-        // member decorators
-        const decoCt = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-        const decorators: { name: string; args: string[] }[] = [];
-        for (let d = 0; d < decoCt; d++) {
-          const decoNameIdx = decodeVarint(buf, offset).value;
-          offset = decodeVarint(buf, offset).next;
-          const argCount = decodeVarint(buf, offset).value;
-          offset = decodeVarint(buf, offset).next;
-          const args: string[] = [];
-          for (let a = 0; a < argCount; a++) {
-            const argIdx = decodeVarint(buf, offset).value;
-            offset = decodeVarint(buf, offset).next;
-            args.push(getString(argIdx));
-          }
-          decorators.push({ name: getString(decoNameIdx), args });
-        }
-
-        // parameters (for methods, accessors, ctors)
-        const paramCt = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-        let parameters = undefined;
-        if (paramCt > 0) {
-          parameters = [];
-          for (let p = 0; p < paramCt; p++) {
-            const pnameIdx = decodeVarint(buf, offset).value;
-            offset = decodeVarint(buf, offset).next;
-
-            const ptypeDecode = decodeRTTITypeRef(buf, offset, getString);
-            const ptype = ptypeDecode.ref;
-            offset = ptypeDecode.next;
-
-            const pdecoCt = decodeVarint(buf, offset).value;
-            offset = decodeVarint(buf, offset).next;
-            const paramDecorators = [];
-            for (let pd = 0; pd < pdecoCt; pd++) {
-              const pname = decodeVarint(buf, offset).value;
-              offset = decodeVarint(buf, offset).next;
-              const argCt = decodeVarint(buf, offset).value;
-              offset = decodeVarint(buf, offset).next;
-              const pargs: string[] = [];
-              for (let pa = 0; pa < argCt; pa++) {
-                const aidx = decodeVarint(buf, offset).value;
-                offset = decodeVarint(buf, offset).next;
-                pargs.push(getString(aidx));
-              }
-              paramDecorators.push({ name: getString(pname), args: pargs });
-            }
-            parameters.push({
-              name: getString(pnameIdx),
-              type: ptype,
-              decorators: paramDecorators,
-            });
-          }
-        }
-        members.push({
-          name: getString(nameIdx),
-          type,
-          flags,
-          decorators,
-          parameters,
-        });
+        const propDec = decodeProp(buf, offset, getString, version);
+        members.push(propDec.prop);
+        offset = propDec.next;
       }
 
       // Generics
@@ -135,7 +444,7 @@ export function decodeRTTIEntry(
         let constraint: RTTITypeRef | undefined = undefined;
         const hasConstraint = buf[offset++];
         if (hasConstraint) {
-          const cret = decodeRTTITypeRef(buf, offset, getString);
+          const cret = decodeRTTITypeRef(buf, offset, getString, version);
           constraint = cret.ref;
           offset = cret.next;
         }
@@ -163,11 +472,48 @@ export function decodeRTTIEntry(
       // Bases/implements
       const baseCt = decodeVarint(buf, offset).value;
       offset = decodeVarint(buf, offset).next;
-      const bases: string[] = [];
+      const bases: RTTIHeritage[] = [];
       for (let i = 0; i < baseCt; i++) {
         const baseIdx = decodeVarint(buf, offset).value;
         offset = decodeVarint(buf, offset).next;
-        bases.push(getString(baseIdx));
+        // Older files only list the names
+        if (version < ProtocolVersion.HeritageTypeArgs) {
+          bases.push({
+            fqName: getString(baseIdx),
+            relation: "extends",
+            typeArgs: [],
+          });
+          continue;
+        }
+        const relation = buf[offset++] === 1 ? "implements" : "extends";
+        const argCt = decodeVarint(buf, offset).value;
+        offset = decodeVarint(buf, offset).next;
+        const typeArgs: RTTITypeRef[] = [];
+        for (let j = 0; j < argCt; j++) {
+          const argDec = decodeRTTITypeRef(buf, offset, getString, version);
+          offset = argDec.next;
+          typeArgs.push(argDec.ref);
+        }
+        bases.push({ fqName: getString(baseIdx), relation, typeArgs });
+      }
+
+      // Index signatures
+      const indexSignatures: RTTIIndexSignature[] = [];
+      let indexCt = 0;
+      if (version >= ProtocolVersion.IndexSignatures) {
+        indexCt = decodeVarint(buf, offset).value;
+        offset = decodeVarint(buf, offset).next;
+      }
+      for (let i = 0; i < indexCt; i++) {
+        const keyDec = decodeRTTITypeRef(buf, offset, getString, version);
+        offset = keyDec.next;
+        const valueDec = decodeRTTITypeRef(buf, offset, getString, version);
+        offset = valueDec.next;
+        indexSignatures.push({
+          keyType: keyDec.ref,
+          valueType: valueDec.ref,
+          readonly: buf[offset++] === 1,
+        });
       }
 
       return {
@@ -176,6 +522,7 @@ export function decodeRTTIEntry(
         generics,
         decorators: typeDecorators,
         bases,
+        indexSignatures,
       };
     }
     case OpCode.REF_FUNCTION: {
@@ -185,33 +532,12 @@ export function decodeRTTIEntry(
 
       const params: any[] = [];
       for (let i = 0; i < paramCt; i++) {
-        const nameIdx = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-
-        const typeRefDec = decodeRTTITypeRef(buf, offset, getString);
-        const type = typeRefDec.ref;
-        offset = typeRefDec.next;
-
-        const decoCt = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-        const decorators: { name: string; args: string[] }[] = [];
-        for (let j = 0; j < decoCt; j++) {
-          const decoNameIdx = decodeVarint(buf, offset).value;
-          offset = decodeVarint(buf, offset).next;
-          const argCount = decodeVarint(buf, offset).value;
-          offset = decodeVarint(buf, offset).next;
-          const args: string[] = [];
-          for (let a = 0; a < argCount; a++) {
-            const argIdx = decodeVarint(buf, offset).value;
-            offset = decodeVarint(buf, offset).next;
-            args.push(getString(argIdx));
-          }
-          decorators.push({ name: getString(decoNameIdx), args });
-        }
-        params.push({ name: getString(nameIdx), type, decorators });
+        const paramDec = decodeParameter(buf, offset, getString, version);
+        params.push(paramDec.param);
+        offset = paramDec.next;
       }
       // Return type
-      const returnTypeDec = decodeRTTITypeRef(buf, offset, getString);
+      const returnTypeDec = decodeRTTITypeRef(buf, offset, getString, version);
       const returnType = returnTypeDec.ref;
       offset = returnTypeDec.next;
 
@@ -226,7 +552,7 @@ export function decodeRTTIEntry(
         let constraint: RTTITypeRef | undefined = undefined;
         const hasConstraint = buf[offset++];
         if (hasConstraint) {
-          const cret = decodeRTTITypeRef(buf, offset, getString);
+          const cret = decodeRTTITypeRef(buf, offset, getString, version);
           constraint = cret.ref;
           offset = cret.next;
         }
@@ -250,43 +576,78 @@ export function decodeRTTIEntry(
         }
         decorators.push({ name: getString(decoNameIdx), args });
       }
+
+      // Overloaded signatures + construct flag
+      const overloads: RTTIMethodOverload[] = [];
+      let construct = false;
+      if (version >= ProtocolVersion.FunctionOverloads) {
+        const overloadCt = decodeVarint(buf, offset).value;
+        offset = decodeVarint(buf, offset).next;
+        for (let i = 0; i < overloadCt; i++) {
+          const ovlDec = decodeMethodOverload(buf, offset, getString, version);
+          overloads.push(ovlDec.overload);
+          offset = ovlDec.next;
+        }
+        construct = buf[offset++] === 1;
+      }
+      let implementation: RTTIMethodOverload | undefined = undefined;
+      if (
+        version >= ProtocolVersion.FunctionImplementation &&
+        buf[offset++] === 1
+      ) {
+        const implDec = decodeMethodOverload(buf, offset, getString, version);
+        implementation = implDec.overload;
+        offset = implDec.next;
+      }
       return {
         kind,
         params,
         returnType,
         generics,
         decorators,
+        overloads: overloads.length > 0 ? overloads : undefined,
+        construct,
+        implementation,
       };
     }
 
     case OpCode.REF_ENUM: {
-      const members: { name: string; value: string | number }[] = [];
+      const members: RTTIEnumMember[] = [];
       const memberDecode = decodeVarint(buf, offset);
       const memberCount = memberDecode.value;
       offset = memberDecode.next;
       for (let i = 0; i < memberCount; i++) {
         const nameIdx = decodeVarint(buf, offset).value;
         offset = decodeVarint(buf, offset).next;
-        let value: string | number;
-        if (buf[offset] === 0xff) {
-          // ensure there are 4 more bytes available for the 32-bit value
-          if (offset + 4 >= buf.length) {
+        if (version < ProtocolVersion.EnumValueTags) {
+          const legacy = decodeLegacyEnumValue(buf, offset);
+          members.push({ name: getString(nameIdx), value: legacy.value });
+          offset = legacy.next;
+          continue;
+        }
+        const tag = decodeVarint(buf, offset).value;
+        offset = decodeVarint(buf, offset).next;
+        const name = getString(nameIdx);
+        if (tag === 1) {
+          if (offset + 8 > buf.length) {
             throw new Error(
               "Unexpected end of buffer while reading enum numeric value"
             );
           }
-          // read 32-bit little-endian signed integer from the following 4 bytes
-          const view = new DataView(buf.buffer, buf.byteOffset + offset + 1, 4);
-          value = view.getInt32(0, true);
-          offset += 5;
+          const view = new DataView(buf.buffer, buf.byteOffset + offset, 8);
+          members.push({ name, value: view.getFloat64(0, true) });
+          offset += 8;
+          continue;
+        }
+        const textIdx = decodeVarint(buf, offset).value;
+        offset = decodeVarint(buf, offset).next;
+        if (tag === 0) {
+          members.push({ name, value: getString(textIdx) });
         } else {
-          const strLenDecode = decodeVarint(buf, offset);
-          const strLen = strLenDecode.value;
-          offset = strLenDecode.next;
-          value = new TextDecoder().decode(buf.slice(offset, offset + strLen));
-          offset += strLen;
+          // Implicit members of ambient enums have no initializer text
+          const initializer = getString(textIdx) || undefined;
+          members.push({ name, value: undefined, initializer });
         }
-        members.push({ name: getString(nameIdx), value });
       }
       return { kind, members };
     }
@@ -298,7 +659,7 @@ export function decodeRTTIEntry(
       offset = countDecode.next;
       const members: RTTITypeRef[] = [];
       for (let i = 0; i < ct; i++) {
-        const refDec = decodeRTTITypeRef(buf, offset, getString);
+        const refDec = decodeRTTITypeRef(buf, offset, getString, version);
         members.push(refDec.ref);
         offset = refDec.next;
       }
@@ -312,44 +673,166 @@ export function decodeRTTIEntry(
       let keyConstraint: RTTITypeRef | null = null;
       const hasConstraint = buf[offset++];
       if (hasConstraint) {
-        const cret = decodeRTTITypeRef(buf, offset, getString);
+        const cret = decodeRTTITypeRef(buf, offset, getString, version);
         keyConstraint = cret.ref;
         offset = cret.next;
       }
-      const valueTypeDec = decodeRTTITypeRef(buf, offset, getString);
+      const valueTypeDec = decodeRTTITypeRef(buf, offset, getString, version);
       const valueType = valueTypeDec.ref;
       offset = valueTypeDec.next;
+      if (version < ProtocolVersion.MappedModifiers) {
+        return {
+          kind,
+          keyName: getString(keyIdx),
+          keyConstraint,
+          valueType,
+          mappedModifiers: 0,
+        };
+      }
+      const mappedModifiers = decodeVarint(buf, offset).value;
+      offset = decodeVarint(buf, offset).next;
+      const nameTypeDec = decodeOptionalTypeRef(
+        buf,
+        offset,
+        getString,
+        version
+      );
+      offset = nameTypeDec.next;
+      const sourceTypeDec = decodeOptionalTypeRef(
+        buf,
+        offset,
+        getString,
+        version
+      );
+      offset = sourceTypeDec.next;
+      let props: RTTIPropInfo[] | undefined;
+      if (buf[offset++] === 1) {
+        const propCt = decodeVarint(buf, offset).value;
+        offset = decodeVarint(buf, offset).next;
+        props = [];
+        for (let i = 0; i < propCt; i++) {
+          const propDec = decodeProp(buf, offset, getString, version);
+          props.push(propDec.prop);
+          offset = propDec.next;
+        }
+      }
       return {
         kind,
         keyName: getString(keyIdx),
         keyConstraint,
         valueType,
+        mappedModifiers,
+        nameType: nameTypeDec.ref,
+        sourceType: sourceTypeDec.ref,
+        props,
       };
     }
 
     case OpCode.REF_CONDITIONAL: {
-      const checkTypeDec = decodeRTTITypeRef(buf, offset, getString);
+      const checkTypeDec = decodeRTTITypeRef(buf, offset, getString, version);
       const checkType = checkTypeDec.ref;
       offset = checkTypeDec.next;
 
-      const extendsTypeDec = decodeRTTITypeRef(buf, offset, getString);
+      const extendsTypeDec = decodeRTTITypeRef(buf, offset, getString, version);
       const extendsType = extendsTypeDec.ref;
       offset = extendsTypeDec.next;
 
-      const trueTypeDec = decodeRTTITypeRef(buf, offset, getString);
+      const trueTypeDec = decodeRTTITypeRef(buf, offset, getString, version);
       const trueType = trueTypeDec.ref;
       offset = trueTypeDec.next;
 
-      const falseTypeDec = decodeRTTITypeRef(buf, offset, getString);
+      const falseTypeDec = decodeRTTITypeRef(buf, offset, getString, version);
       const falseType = falseTypeDec.ref;
       offset = falseTypeDec.next;
 
+      if (version < ProtocolVersion.ConditionalInfer) {
+        return {
+          kind,
+          checkType,
+          extendsType,
+          trueType,
+          falseType,
+          inferTypeParams: [],
+          distributive: false,
+        };
+      }
+      const distributive = buf[offset++] === 1;
+      const inferCt = decodeVarint(buf, offset).value;
+      offset = decodeVarint(buf, offset).next;
+      const inferTypeParams: RTTIGenericParam[] = [];
+      for (let i = 0; i < inferCt; i++) {
+        const name = getString(decodeVarint(buf, offset).value);
+        offset = decodeVarint(buf, offset).next;
+        const constraintDec = decodeOptionalTypeRef(
+          buf,
+          offset,
+          getString,
+          version
+        );
+        offset = constraintDec.next;
+        inferTypeParams.push({ name, constraint: constraintDec.ref });
+      }
+
       return {
         kind,
         checkType,
         extendsType,
         trueType,
         falseType,
+        inferTypeParams,
+        distributive,
+      };
+    }
+
+    case OpCode.REF_TEMPLATE_LITERAL: {
+      const spanCt = decodeVarint(buf, offset).value;
+      offset = decodeVarint(buf, offset).next;
+      const texts: string[] = [getString(decodeVarint(buf, offset).value)];
+      offset = decodeVarint(buf, offset).next;
+      const types: RTTITypeRef[] = [];
+      for (let i = 0; i < spanCt; i++) {
+        const typeDec = decodeRTTITypeRef(buf, offset, getString, version);
+        types.push(typeDec.ref);
+        offset = typeDec.next;
+        texts.push(getString(decodeVarint(buf, offset).value));
+        offset = decodeVarint(buf, offset).next;
+      }
+      return { kind, texts, types };
+    }
+
+    case OpCode.REF_KEYOF: {
+      const operandDec = decodeRTTITypeRef(buf, offset, getString, version);
+      offset = operandDec.next;
+      let keys: RTTITypeRef[] | undefined;
+      if (buf[offset++] === 1) {
+        const keyCt = decodeVarint(buf, offset).value;
+        offset = decodeVarint(buf, offset).next;
+        keys = [];
+        for (let i = 0; i < keyCt; i++) {
+          const keyDec = decodeRTTITypeRef(buf, offset, getString, version);
+          keys.push(keyDec.ref);
+          offset = keyDec.next;
+        }
+      }
+      return { kind, operand: operandDec.ref, keys };
+    }
+
+    case OpCode.REF_INDEXED_ACCESS: {
+      const objectDec = decodeRTTITypeRef(buf, offset, getString, version);
+      offset = objectDec.next;
+      const indexDec = decodeRTTITypeRef(buf, offset, getString, version);
+      offset = indexDec.next;
+      let resolved: RTTITypeRef | undefined;
+      if (buf[offset++] === 1) {
+        const resolvedDec = decodeRTTITypeRef(buf, offset, getString, version);
+        resolved = resolvedDec.ref;
+        offset = resolvedDec.next;
+      }
+      return {
+        kind,
+        objectType: objectDec.ref,
+        indexType: indexDec.ref,
+        resolved,
       };
     }
 
@@ -360,7 +843,7 @@ export function decodeRTTIEntry(
       offset = decodeVarint(buf, offset).next;
       const args: RTTITypeRef[] = [];
       for (let i = 0; i < argsCt; i++) {
-        const argDec = decodeRTTITypeRef(buf, offset, getString);
+        const argDec = decodeRTTITypeRef(buf, offset, getString, version);
         args.push(argDec.ref);
         offset = argDec.next;
       }
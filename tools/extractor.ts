@@ -1,13 +1,32 @@
+import path from "path";
 import ts from "typescript";
+import { fnv1aHash, rttiTypeRefToString } from "./protocol";
 import {
+  BUILTIN_TYPES,
+  MappedModifiers,
+  MemberFlags,
   OpCodes,
+  ParameterFlags,
   PrimitiveType,
   PrimitiveTypes,
   RTTIClassMetadata,
   RTTIConditionalMetadata,
+  RTTIFunctionMetadata,
+  RTTIGenericMetadata,
+  RTTIGenericParam,
+  RTTIIndexedAccessMetadata,
+  RTTIIndexSignature,
   RTTIIntersectionMetadata,
+  RTTIJSDoc,
+  RTTIKeyofMetadata,
+  RTTILiteralMetadata,
   RTTIMappedMetadata,
   RTTIMetadata,
+  RTTIMethodOverload,
+  RTTIParameter,
+  RTTIPropInfo,
+  RTTISourceLocation,
+  RTTITemplateLiteralMetadata,
   RTTITypeRef,
   RTTIUnionMetadata,
 } from "./types";
@@ -15,9 +34,76 @@ import {
 export interface RTTIExtractContext {
   typeChecker: ts.TypeChecker;
   rttiMap: Map<string, RTTIMetadata>;
-  fqPrefix: string;
+  // Types whose extraction is under way: the ref they were registered under
+  // (registerPlaceholder), or null for content-named ones (markUnnamed)
+  visiting: Map<ts.Type, RTTITypeRef | null>;
+  // Current extractTypeRTTI nesting
+  typeDepth: number;
+  // Also store the resolved property list of concrete mapped types
+  resolveMappedProps?: boolean;
+  // Nesting limit for extractTypeRTTI (default DEFAULT_MAX_TYPE_DEPTH)
+  maxTypeDepth?: number;
 }
 
+// Deeper types (e.g. ever-growing instantiations of a recursive generic)
+// are recorded as Unknown
+export const DEFAULT_MAX_TYPE_DEPTH = 64;
+
+function normalizeModulePath(modulePath: string): string {
+  const relative = path.isAbsolute(modulePath)
+    ? path.relative(process.cwd(), modulePath)
+    : modulePath;
+  return relative.split(path.sep).join("/");
+}
+
+/**
+ * Module-qualified name for a symbol, e.g. `"src/User".User`.
+ * The module part is made relative to the project root so names are stable
+ * across machines; symbols declared in global scripts stay unqualified.
+ */
+export function getQualifiedSymbolName(
+  symbol: ts.Symbol,
+  checker: ts.TypeChecker
+): string {
+  const fqName = checker.getFullyQualifiedName(symbol);
+  const match = /^"(.*?)"(\..*)?$/.exec(fqName);
+  if (match) return `"${normalizeModulePath(match[1]!)}"${match[2] ?? ""}`;
+
+  // Non-exported module declarations have no parent symbol, so the checker
+  // leaves them unqualified; add the module ourselves.
+  const sourceFile = symbol.declarations?.[0]?.getSourceFile();
+  if (!sourceFile || !ts.isExternalModule(sourceFile)) return fqName;
+  const modulePath = sourceFile.fileName.replace(/\.[cm]?[jt]sx?$/, "");
+  return `"${normalizeModulePath(modulePath)}".${fqName}`;
+}
+
+/**
+ * fqName of the declaration a type parameter belongs to: the nearest named
+ * class, interface, alias or function-like around it. Mapped `K` and `infer U`
+ * parameters belong to the alias they appear in.
+ */
+function getTypeParameterOwner(
+  type: ts.Type,
+  checker: ts.TypeChecker
+): string | undefined {
+  let node: ts.Node | undefined = type.symbol?.declarations?.[0]?.parent;
+  while (node && !ts.isSourceFile(node)) {
+    if (
+      ts.isClassLike(node) ||
+      ts.isInterfaceDeclaration(node) ||
+      ts.isTypeAliasDeclaration(node) ||
+      ts.isFunctionLike(node)
+    ) {
+      const name = ts.getNameOfDeclaration(node as ts.Declaration);
+      const symbol = name && checker.getSymbolAtLocation(name);
+      if (symbol) return getQualifiedSymbolName(symbol, checker);
+    }
+    node = node.parent;
+  }
+  return undefined;
+}
+
+// Translates checker flags to the protocol's fixed PrimitiveTypes codes
 function isPrimitiveType(type: ts.Type): PrimitiveType | undefined {
   if (type.flags & ts.TypeFlags.Number)
     return PrimitiveTypes.Number as PrimitiveType;
@@ -36,9 +122,53 @@ function isPrimitiveType(type: ts.Type): PrimitiveType | undefined {
     return PrimitiveTypes.Unknown as PrimitiveType;
   if (type.flags & ts.TypeFlags.ESSymbol)
     return PrimitiveTypes.ESSymbol as PrimitiveType;
+  if (type.flags & ts.TypeFlags.Void)
+    return PrimitiveTypes.Void as PrimitiveType;
+  if (type.flags & ts.TypeFlags.Never)
+    return PrimitiveTypes.Never as PrimitiveType;
+  if (type.flags & ts.TypeFlags.NonPrimitive)
+    return PrimitiveTypes.Object as PrimitiveType;
+  return undefined;
+}
+
+function isLiteralType(
+  type: ts.Type,
+  checker: ts.TypeChecker
+): RTTILiteralMetadata["data"] | undefined {
+  if (type.isStringLiteral())
+    return { type: PrimitiveTypes.String as PrimitiveType, value: type.value };
+  if (type.isNumberLiteral())
+    return { type: PrimitiveTypes.Number as PrimitiveType, value: type.value };
+  if (type.flags & ts.TypeFlags.BooleanLiteral)
+    return {
+      type: PrimitiveTypes.Boolean as PrimitiveType,
+      value: type === checker.getTrueType(),
+    };
+  if (type.flags & ts.TypeFlags.BigIntLiteral) {
+    const { negative, base10Value } = (type as ts.BigIntLiteralType).value;
+    return {
+      type: PrimitiveTypes.BigInt as PrimitiveType,
+      value: (negative ? "-" : "") + base10Value,
+    };
+  }
+  // `declare const TOKEN: unique symbol` is identified by its declaration
+  if (type.flags & ts.TypeFlags.UniqueESSymbol && type.symbol)
+    return {
+      type: PrimitiveTypes.ESSymbol as PrimitiveType,
+      value: getQualifiedSymbolName(type.symbol, checker),
+    };
   return undefined;
 }
 
+function literalToString(literal: RTTILiteralMetadata["data"]): string {
+  if (literal.type === PrimitiveTypes.String)
+    return JSON.stringify(literal.value);
+  if (literal.type === PrimitiveTypes.BigInt) return `${literal.value}n`;
+  if (literal.type === PrimitiveTypes.ESSymbol)
+    return `typeof ${literal.value}`;
+  return String(literal.value);
+}
+
 function hasObjectFlags(type: ts.Type): type is ts.ObjectType {
   return typeof (type as any).objectFlags === "number";
 }
@@ -51,12 +181,33 @@ function isMappedType(type: ts.Type): boolean {
   );
 }
 
-function isConditionalType(type: ts.Type): type is ts.Type & {
-  checkType: ts.Type;
-  extendsType: ts.Type;
-  resolvedTrueType: ts.Type;
-  resolvedFalseType: ts.Type;
-} {
+function getMappedModifiers(declaration: ts.MappedTypeNode): number {
+  let modifiers = MappedModifiers.None;
+  const { readonlyToken, questionToken } = declaration;
+  if (readonlyToken)
+    modifiers |=
+      readonlyToken.kind === ts.SyntaxKind.MinusToken
+        ? MappedModifiers.ExcludeReadonly
+        : MappedModifiers.IncludeReadonly;
+  if (questionToken)
+    modifiers |=
+      questionToken.kind === ts.SyntaxKind.MinusToken
+        ? MappedModifiers.ExcludeOptional
+        : MappedModifiers.IncludeOptional;
+  return modifiers;
+}
+
+// Modifiers as written: "readonly,?", "-readonly", "-?"
+function mappedModifiersToString(modifiers: number): string {
+  const parts: string[] = [];
+  if (modifiers & MappedModifiers.IncludeReadonly) parts.push("readonly");
+  if (modifiers & MappedModifiers.ExcludeReadonly) parts.push("-readonly");
+  if (modifiers & MappedModifiers.IncludeOptional) parts.push("?");
+  if (modifiers & MappedModifiers.ExcludeOptional) parts.push("-?");
+  return parts.join(",");
+}
+
+function isConditionalType(type: ts.Type): type is ts.ConditionalType {
   return (type.flags & ts.TypeFlags.Conditional) !== 0;
 }
 
@@ -72,6 +223,75 @@ function isArrayType(type: ts.Type, checker: ts.TypeChecker): boolean {
   );
 }
 
+function isLibSymbol(symbol: ts.Symbol): boolean {
+  return (
+    !!symbol.declarations?.length &&
+    symbol.declarations.every((d) => d.getSourceFile().hasNoDefaultLib)
+  );
+}
+
+/**
+ * Name and kept type arguments of a BUILTIN_TYPES lib type (Promise<T>,
+ * Record<K, V>, Date, ...); user declarations of the same name don't count.
+ */
+function getBuiltinType(
+  type: ts.Type,
+  checker: ts.TypeChecker
+): { name: string; args: readonly ts.Type[] } | undefined {
+  // Record<K, V> is an alias of a mapped type
+  const alias = type.aliasSymbol;
+  if (alias && BUILTIN_TYPES.has(alias.name) && isLibSymbol(alias)) {
+    return {
+      name: alias.name,
+      args: (type.aliasTypeArguments ?? []).slice(
+        0,
+        BUILTIN_TYPES.get(alias.name)
+      ),
+    };
+  }
+  const symbol = type.symbol;
+  if (!symbol || !BUILTIN_TYPES.has(symbol.name) || !isLibSymbol(symbol))
+    return undefined;
+  const args =
+    hasObjectFlags(type) && type.objectFlags & ts.ObjectFlags.Reference
+      ? checker.getTypeArguments(type as ts.TypeReference)
+      : [];
+  return {
+    name: symbol.name,
+    args: args.slice(0, BUILTIN_TYPES.get(symbol.name)),
+  };
+}
+
+/**
+ * Name and type arguments of any other lib object type (Function,
+ * Iterator<T>, ClassDecorator, ...). These are stored by name and arguments
+ * only; walking their members would pull most of lib.d.ts into the metadata.
+ */
+function getOpaqueLibType(
+  type: ts.Type,
+  checker: ts.TypeChecker
+): { name: string; args: readonly ts.Type[] } | undefined {
+  if (!(type.flags & ts.TypeFlags.Object) || isMappedType(type))
+    return undefined;
+  const symbol = type.aliasSymbol ?? type.symbol;
+  if (!symbol || symbol.name.startsWith("__") || !isLibSymbol(symbol))
+    return undefined;
+  const name = getQualifiedSymbolName(symbol, checker);
+  if (type.aliasSymbol)
+    return { name, args: type.aliasTypeArguments ?? [] };
+  if (hasObjectFlags(type) && type.objectFlags & ts.ObjectFlags.Reference) {
+    // Interface references may carry a trailing `this` argument; drop it
+    const { target } = type as ts.TypeReference;
+    return {
+      name,
+      args: checker
+        .getTypeArguments(type as ts.TypeReference)
+        .slice(0, target.typeParameters?.length ?? 0),
+    };
+  }
+  return { name, args: [] };
+}
+
 function extractArrayElementType(type: ts.Type): ts.Type | undefined {
   // .typeArguments is used for Array<T>
   if (Array.isArray((type as any).typeArguments)) {
@@ -84,53 +304,154 @@ export function extractTypeRTTI(
   type: ts.Type,
   context: RTTIExtractContext
 ): RTTITypeRef {
-  const { typeChecker, rttiMap, fqPrefix } = context;
+  // A type reached again from inside itself: named ones refer to their
+  // placeholder entry; content-named ones (mapped, conditional, anonymous
+  // shapes) can't be named before their parts, so the cycle is cut off
+  const { visiting } = context;
+  if (visiting.has(type)) {
+    return (
+      visiting.get(type) ?? {
+        kind: "primitive",
+        type: PrimitiveTypes.Unknown as PrimitiveType,
+      }
+    );
+  }
+  if (context.typeDepth >= (context.maxTypeDepth ?? DEFAULT_MAX_TYPE_DEPTH)) {
+    return { kind: "primitive", type: PrimitiveTypes.Unknown as PrimitiveType };
+  }
+  context.typeDepth++;
+  try {
+    return extractTypeRTTIUnguarded(type, context);
+  } finally {
+    visiting.delete(type);
+    context.typeDepth--;
+  }
+}
+
+/**
+ * Registers an entry before its parts are extracted, so references back to
+ * the type (directly or through other types) resolve to it and terminate.
+ */
+function registerPlaceholder(
+  type: ts.Type,
+  meta: RTTIMetadata,
+  context: RTTIExtractContext
+): RTTITypeRef {
+  context.rttiMap.set(meta.fqName, meta);
+  const ref: RTTITypeRef = { kind: "ref", fqName: meta.fqName };
+  context.visiting.set(type, ref);
+  return ref;
+}
+
+// For types named after their extracted parts: reaching one again before
+// it's done is a cycle that can only be cut off
+function markUnnamed(type: ts.Type, context: RTTIExtractContext): void {
+  context.visiting.set(type, null);
+}
+
+function extractTypeRTTIUnguarded(
+  type: ts.Type,
+  context: RTTIExtractContext
+): RTTITypeRef {
+  const { typeChecker, rttiMap } = context;
 
   // ----- 1. Primitive -----
   const prim = isPrimitiveType(type);
   if (prim !== undefined) return { kind: "primitive", type: prim };
 
+  // ----- 1a. Type parameter (T, U, K) of the enclosing declaration -----
+  if (type.flags & ts.TypeFlags.TypeParameter) {
+    if ((type as any).isThisType) return { kind: "this" };
+    const owner = getTypeParameterOwner(type, typeChecker);
+    return owner
+      ? { kind: "typeParam", name: type.symbol.getName(), owner }
+      : { kind: "typeParam", name: type.symbol.getName() };
+  }
+
+  // ----- 1b. Literal (string/number/boolean/bigint) -----
+  const literal = isLiteralType(type, typeChecker);
+  if (literal !== undefined) {
+    // Literals are keyed by value only, so every use shares one entry
+    const fqName = `Literal<${literalToString(literal)}>`;
+    if (!rttiMap.has(fqName)) {
+      rttiMap.set(fqName, {
+        fqName,
+        kind: OpCodes.REF_LITERAL,
+        data: literal,
+      } as RTTILiteralMetadata);
+    }
+    return { kind: "ref", fqName };
+  }
+
   // ----- 2. Union / Intersection -----
   if (type.isUnionOrIntersection && type.isUnionOrIntersection()) {
-    const refs: RTTITypeRef[] = type.types.map((t) =>
-      extractTypeRTTI(t, { ...context, fqPrefix: fqPrefix + "_" })
-    );
-    const fqNameRoot =
-      fqPrefix +
+    const kind = type.isUnion() ? OpCodes.REF_UNION : OpCodes.REF_INTERSECTION;
+    const extractMembers = () =>
+      type.types.map((t) => extractTypeRTTI(t, context));
+
+    // Prefer alias name; aliases may refer back to themselves
+    // (type Json = ... | Json[]), so register them first
+    if (type.aliasSymbol) {
+      const fqName = getQualifiedSymbolName(type.aliasSymbol, typeChecker);
+      if (!rttiMap.has(fqName)) {
+        const meta = {
+          fqName,
+          kind,
+          data: { members: [] as RTTITypeRef[] },
+        } as RTTIUnionMetadata | RTTIIntersectionMetadata;
+        registerPlaceholder(type, meta, context);
+        meta.data.members = extractMembers();
+      }
+      return { kind: "ref", fqName };
+    }
+
+    // Fallback to the member strings
+    const refs = extractMembers();
+    const fqName =
       (type.isUnion() ? "union" : "inter") +
       "_" +
       refs.map((ref) => rttiTypeRefToString(ref)).join("_");
 
-    // Prefer alias name, fallback to hash of member strings
-    const fqName = type.aliasSymbol
-      ? (type.aliasSymbol.escapedName as string)
-      : fqNameRoot;
-
     // Only register once!
     if (!rttiMap.has(fqName)) {
       rttiMap.set(fqName, {
         fqName,
-        kind: type.isUnion() ? OpCodes.REF_UNION : OpCodes.REF_INTERSECTION,
+        kind,
         data: { members: refs },
       } as RTTIUnionMetadata | RTTIIntersectionMetadata);
     }
     return { kind: "ref", fqName };
   }
 
+  // ----- 2b. Builtins: Promise<T>, Map<K, V>, Record<K, V>, Date, ... -----
+  const builtin = getBuiltinType(type, typeChecker);
+  if (builtin) {
+    const argRefs = builtin.args.map((t) => extractTypeRTTI(t, context));
+    // Keyed by content only, like literals
+    const fqName = argRefs.length
+      ? `${builtin.name}<${argRefs.map(rttiTypeRefToString).join(",")}>`
+      : builtin.name;
+    if (!rttiMap.has(fqName)) {
+      rttiMap.set(fqName, {
+        fqName,
+        kind: OpCodes.REF_GENERIC,
+        data: { base: builtin.name, args: argRefs },
+      } as RTTIGenericMetadata);
+    }
+    return { kind: "ref", fqName };
+  }
+
   // ----- 3. Array -----
   if (isArrayType(type, typeChecker)) {
     const elemType = extractArrayElementType(type) || typeChecker.getAnyType();
-    const elemRef = extractTypeRTTI(elemType, {
-      ...context,
-      fqPrefix: fqPrefix + "_array",
-    });
-    const fqName = `${fqPrefix}Array<${rttiTypeRefToString(elemRef)}>`;
+    const elemRef = extractTypeRTTI(elemType, context);
+    const fqName = `Array<${rttiTypeRefToString(elemRef)}>`;
     if (!rttiMap.has(fqName)) {
       rttiMap.set(fqName, {
         fqName,
         kind: OpCodes.REF_GENERIC,
         data: { base: "Array", args: [elemRef] },
-      } as any);
+      } as RTTIGenericMetadata);
     }
     return { kind: "ref", fqName };
   }
@@ -139,15 +460,31 @@ export function extractTypeRTTI(
   if (typeChecker.isTupleType && typeChecker.isTupleType(type)) {
     const elemTypes = (type as any).typeArguments || [];
     const elemRefs = elemTypes.map((t: ts.Type) => extractTypeRTTI(t, context));
-    const fqName = `${fqPrefix}Tuple<${elemRefs
-      .map(rttiTypeRefToString)
-      .join(",")}>`;
+    const fqName = `Tuple<${elemRefs.map(rttiTypeRefToString).join(",")}>`;
     if (!rttiMap.has(fqName)) {
       rttiMap.set(fqName, {
         fqName,
         kind: OpCodes.REF_GENERIC,
         data: { base: "Tuple", args: elemRefs },
-      } as any);
+      } as RTTIGenericMetadata);
+    }
+    return { kind: "ref", fqName };
+  }
+
+  // ----- 4b. Other lib types, by name and type arguments only -----
+  const libType = getOpaqueLibType(type, typeChecker);
+  if (libType) {
+    const argRefs = libType.args.map((t) => extractTypeRTTI(t, context));
+    // Keyed by content only, like builtins
+    const fqName = argRefs.length
+      ? `${libType.name}<${argRefs.map(rttiTypeRefToString).join(",")}>`
+      : libType.name;
+    if (!rttiMap.has(fqName)) {
+      rttiMap.set(fqName, {
+        fqName,
+        kind: OpCodes.REF_GENERIC,
+        data: { base: libType.name, args: argRefs },
+      } as RTTIGenericMetadata);
     }
     return { kind: "ref", fqName };
   }
@@ -157,33 +494,174 @@ export function extractTypeRTTI(
     type.symbol &&
     type.symbol.name &&
     hasObjectFlags(type) &&
-    (type as any).objectFlags & ts.ObjectFlags.Reference
+    (type as any).objectFlags &
+      (ts.ObjectFlags.Reference | ts.ObjectFlags.ClassOrInterface)
   ) {
-    const fqName = typeChecker.getFullyQualifiedName(type.symbol);
+    // Instantiations (Box<string, number>) point at their generic target
+    const target = (type as ts.TypeReference).target;
+    if (target && target !== type) {
+      const baseRef = extractTypeRTTI(target, context);
+      if (baseRef.kind !== "ref") return baseRef;
+      // Class references may carry a trailing `this` argument; drop it
+      const typeParams = target.typeParameters ?? [];
+      const argRefs = typeChecker
+        .getTypeArguments(type as ts.TypeReference)
+        .slice(0, typeParams.length)
+        .map((t) => extractTypeRTTI(t, context));
+      const fqName = `${baseRef.fqName}<${argRefs
+        .map(rttiTypeRefToString)
+        .join(",")}>`;
+      if (!rttiMap.has(fqName)) {
+        rttiMap.set(fqName, {
+          fqName,
+          kind: OpCodes.REF_GENERIC,
+          data: { base: baseRef.fqName, args: argRefs },
+        } as RTTIGenericMetadata);
+      }
+      return { kind: "ref", fqName };
+    }
+
+    const fqName = getQualifiedSymbolName(type.symbol, typeChecker);
 
     if (!rttiMap.has(fqName)) {
-      const props: any[] = [];
-      for (const prop of type.getProperties()) {
-        if (
-          !prop.valueDeclaration &&
-          (!prop.declarations || !prop.declarations[0])
-        )
-          continue;
-        const propType = typeChecker.getTypeOfSymbolAtLocation(
-          prop,
-          prop.valueDeclaration ?? prop.declarations![0]
-        );
-        props.push({
-          name: prop.getName(),
-          type: extractTypeRTTI(propType, {
-            ...context,
-            fqPrefix: fqName + "." + prop.getName(),
-          }),
-          flags: 0,
+      const meta: RTTIClassMetadata = {
+        fqName,
+        kind: OpCodes.REF_OBJECT,
+        data: {
+          props: [],
+          generics: ((type as ts.InterfaceType).typeParameters ?? []).map(
+            (tp) => ({ name: tp.symbol.getName() })
+          ),
           decorators: [],
-        });
+          bases: [],
+        },
+      };
+      registerPlaceholder(type, meta, context);
+      meta.data.props = extractObjectProps(type, context);
+      meta.data.indexSignatures = extractIndexSignatures(type, context);
+    }
+    return { kind: "ref", fqName };
+  }
+
+  const callSignatures = typeChecker.getSignaturesOfType(
+    type,
+    ts.SignatureKind.Call
+  );
+  const constructSignatures = typeChecker.getSignaturesOfType(
+    type,
+    ts.SignatureKind.Construct
+  );
+
+  // ----- 5a. Function types: (a: T, b: T) => number, new (x: string) => X -----
+  if (
+    hasObjectFlags(type) &&
+    (callSignatures.length > 0 || constructSignatures.length > 0) &&
+    type.getProperties().length === 0
+  ) {
+    const construct = callSignatures.length === 0;
+    const signatures = construct ? constructSignatures : callSignatures;
+    const data = {} as RTTIFunctionMetadata["data"];
+    const fill = () => {
+      const overloads = signatures.map((sig) =>
+        extractSignatureRTTI(sig, context)
+      );
+      data.params = overloads[0]!.params;
+      data.returnType = overloads[0]!.returnType;
+      data.generics = signatures[0]!.typeParameters
+        ? signatures[0]!.typeParameters.map((tp) =>
+            extractTypeParameterRTTI(tp, context)
+          )
+        : [];
+      data.overloads = overloads.length > 1 ? overloads : undefined;
+      data.construct = construct || undefined;
+      return overloads;
+    };
+
+    if (isAliasDeclarationType(type, typeChecker)) {
+      const fqName = getQualifiedSymbolName(type.aliasSymbol!, typeChecker);
+      if (!rttiMap.has(fqName)) {
+        // Register first: `type Visitor = (next: Visitor) => void`
+        registerPlaceholder(
+          type,
+          { fqName, kind: OpCodes.REF_FUNCTION, data } as RTTIFunctionMetadata,
+          context
+        );
+        fill();
+        const aliasGenerics = (type.aliasTypeArguments ?? []).map((tp) =>
+          extractTypeParameterRTTI(tp as ts.TypeParameter, context)
+        );
+        data.generics = [...aliasGenerics, ...data.generics];
       }
+      return { kind: "ref", fqName };
+    }
 
+    const fqName = getFunctionName(fill(), construct);
+    if (!rttiMap.has(fqName)) {
+      rttiMap.set(fqName, {
+        fqName,
+        kind: OpCodes.REF_FUNCTION,
+        data,
+      } as RTTIFunctionMetadata);
+    }
+    return { kind: "ref", fqName };
+  }
+
+  // ----- 5b. Anonymous object literal types: { x: number; y: number } -----
+  if (
+    hasObjectFlags(type) &&
+    type.objectFlags & ts.ObjectFlags.Anonymous &&
+    callSignatures.length === 0 &&
+    constructSignatures.length === 0
+  ) {
+    // Expanding alias instantiations would never end for
+    // `type Deep<T> = { deeper: Deep<T[]> }`
+    const instance = extractAliasInstantiation(type, context);
+    if (instance) return instance;
+
+    // An alias (type Point = {...}) names the shape directly
+    if (isAliasDeclarationType(type, typeChecker)) {
+      const fqName = getQualifiedSymbolName(type.aliasSymbol!, typeChecker);
+      if (!rttiMap.has(fqName)) {
+        const meta: RTTIClassMetadata = {
+          fqName,
+          kind: OpCodes.REF_OBJECT,
+          data: {
+            props: [],
+            generics: (type.aliasTypeArguments ?? []).map((tp) =>
+              extractTypeParameterRTTI(tp as ts.TypeParameter, context)
+            ),
+            decorators: [],
+            bases: [],
+          },
+        };
+        registerPlaceholder(type, meta, context);
+        meta.data.props = extractObjectProps(type, context);
+        meta.data.indexSignatures = extractIndexSignatures(type, context);
+      }
+      return { kind: "ref", fqName };
+    }
+
+    // Otherwise derive a synthetic name from the shape, so identical
+    // shapes share one entry (no prefix: names depend on content only)
+    markUnnamed(type, context);
+    const props = extractObjectProps(type, context);
+    const indexSignatures = extractIndexSignatures(type, context);
+    const shape = [
+      ...indexSignatures.map(
+        (s) =>
+          `${s.readonly ? "readonly " : ""}[${rttiTypeRefToString(
+            s.keyType
+          )}]:${rttiTypeRefToString(s.valueType)}`
+      ),
+      ...props.map(
+        (p) =>
+          `${p.name}${
+            p.flags & MemberFlags.Optional ? "?" : ""
+          }:${rttiTypeRefToString(p.type)}`
+      ),
+    ].join(";");
+    const fqName = `__type_${fnv1aHash(`{${shape}}`).toString(16)}`;
+    if (!rttiMap.has(fqName)) {
       rttiMap.set(fqName, {
         fqName,
         kind: OpCodes.REF_OBJECT,
@@ -192,6 +670,7 @@ export function extractTypeRTTI(
           generics: [],
           decorators: [],
           bases: [],
+          indexSignatures,
         },
       } as RTTIClassMetadata);
     }
@@ -200,61 +679,820 @@ export function extractTypeRTTI(
 
   // ----- 6. Mapped Types -----
   if (isMappedType(type)) {
-    const mappedType = type as any;
-    const keyType = mappedType.constraint ?? typeChecker.getAnyType();
-    const valueType = mappedType.templateType ?? typeChecker.getAnyType();
-    const keyRef = extractTypeRTTI(keyType, context);
-    const valueRef = extractTypeRTTI(valueType, context);
-    const fqName = `${fqPrefix}Mapped<${rttiTypeRefToString(
-      keyRef
-    )},${rttiTypeRefToString(valueRef)}>`;
+    return extractMappedTypeRTTI(type, context);
+  }
+
+  // ----- 7. Conditional Types -----
+  if (isConditionalType(type)) {
+    return extractConditionalTypeRTTI(type, context);
+  }
+
+  // ----- 7a. Template literal types: `user_${string}` -----
+  if (type.flags & ts.TypeFlags.TemplateLiteral) {
+    const { texts, types } = type as ts.TemplateLiteralType;
+    const typeRefs = types.map((t) => extractTypeRTTI(t, context));
+    // Keyed by content only, like literals
+    const fqName = `TemplateLiteral<\`${texts
+      .map((text, i) =>
+        i < typeRefs.length
+          ? `${text}\${${rttiTypeRefToString(typeRefs[i]!)}}`
+          : text
+      )
+      .join("")}\`>`;
     if (!rttiMap.has(fqName)) {
       rttiMap.set(fqName, {
         fqName,
-        kind: OpCodes.REF_MAPPED,
-        data: {
-          keyName: "K",
-          keyConstraint: keyRef,
-          valueType: valueRef,
-        },
-      } as RTTIMappedMetadata);
+        kind: OpCodes.REF_TEMPLATE_LITERAL,
+        data: { texts: [...texts], types: typeRefs },
+      } as RTTITemplateLiteralMetadata);
     }
     return { kind: "ref", fqName };
   }
 
-  // ----- 7. Conditional Types -----
-  if (isConditionalType(type)) {
-    // .checkType, .extendsType, .resolvedTrueType, .resolvedFalseType
-    const fqName = `${fqPrefix}Conditional<${rttiTypeRefToString(
-      extractTypeRTTI((type as any).checkType, context)
-    )},${rttiTypeRefToString(
-      extractTypeRTTI((type as any).extendsType, context)
-    )}>`;
+  // ----- 7b. String mappings: Capitalize<K>, Uppercase<string> -----
+  // Concrete ones resolve to literals; the rest are generics over their operand
+  if (type.flags & ts.TypeFlags.StringMapping) {
+    const mapping = type as ts.StringMappingType;
+    const argRef = extractTypeRTTI(mapping.type, context);
+    const base = mapping.symbol.getName();
+    const fqName = `${base}<${rttiTypeRefToString(argRef)}>`;
     if (!rttiMap.has(fqName)) {
       rttiMap.set(fqName, {
         fqName,
-        kind: OpCodes.REF_CONDITIONAL,
-        data: {
-          checkType: extractTypeRTTI((type as any).checkType, context),
-          extendsType: extractTypeRTTI((type as any).extendsType, context),
-          trueType: extractTypeRTTI(
-            (type as any).resolvedTrueType ?? typeChecker.getAnyType(),
-            context
-          ),
-          falseType: extractTypeRTTI(
-            (type as any).resolvedFalseType ?? typeChecker.getAnyType(),
-            context
-          ),
-        },
-      } as RTTIConditionalMetadata);
+        kind: OpCodes.REF_GENERIC,
+        data: { base, args: [argRef] },
+      } as RTTIGenericMetadata);
     }
     return { kind: "ref", fqName };
   }
 
+  // ----- 7c. keyof T (generic; concrete keyofs resolve to unions) -----
+  if (type.flags & ts.TypeFlags.Index) {
+    return registerKeyof((type as ts.IndexType).type, undefined, context);
+  }
+
+  // ----- 7d. T[K] (generic; concrete accesses resolve to the member type) -----
+  if (type.flags & ts.TypeFlags.IndexedAccess) {
+    const { objectType, indexType } = type as ts.IndexedAccessType;
+    return registerIndexedAccess(objectType, indexType, undefined, context);
+  }
+
   // ----- 8. Fallback: Unknown -----
   return { kind: "primitive", type: PrimitiveTypes.Unknown as PrimitiveType };
 }
 
-export function rttiTypeRefToString(ref: RTTITypeRef): string {
-  return ref.kind === "primitive" ? String(ref.type) : ref.fqName;
+// Function types are keyed by their signatures only
+function getFunctionName(
+  overloads: { params: RTTIParameter[]; returnType: RTTITypeRef }[],
+  construct: boolean
+): string {
+  const shape = overloads
+    .map(
+      (o) =>
+        `(${o.params
+          .map((p) => `${p.name}:${rttiTypeRefToString(p.type)}`)
+          .join(",")})=>${rttiTypeRefToString(o.returnType)}`
+    )
+    .join(";");
+  return `__function_${fnv1aHash((construct ? "new" : "") + shape).toString(
+    16
+  )}`;
+}
+
+/**
+ * T extends U ? X : Y: check/extends types, both branches, `infer`
+ * declarations and whether it distributes over unions.
+ */
+function extractConditionalTypeRTTI(
+  type: ts.Type,
+  context: RTTIExtractContext
+): RTTITypeRef {
+  const { typeChecker, rttiMap } = context;
+  // Everything is read from the written declaration
+  const node = (type as ts.ConditionalType).root.node;
+  const data = {} as RTTIConditionalMetadata["data"];
+  const fill = () => {
+    data.checkType = extractTypeNodeRTTI(node.checkType, context);
+    data.extendsType = extractTypeNodeRTTI(node.extendsType, context);
+    data.trueType = extractTypeNodeRTTI(node.trueType, context);
+    data.falseType = extractTypeNodeRTTI(node.falseType, context);
+    data.inferTypeParams = collectInferTypeNodes(node.extendsType).map((n) =>
+      extractTypeParameterRTTI(
+        typeChecker.getDeclaredTypeOfSymbol(
+          typeChecker.getSymbolAtLocation(n.typeParameter.name)!
+        ) as ts.TypeParameter,
+        context
+      )
+    );
+    // Only a naked type parameter distributes over unions
+    data.distributive = !!(
+      typeChecker.getTypeFromTypeNode(node.checkType).flags &
+      ts.TypeFlags.TypeParameter
+    );
+  };
+
+  // Deferred instantiations (Flatten<U> inside Flatten) point at the alias
+  const instance = extractAliasInstantiation(type, context);
+  if (instance) return instance;
+
+  // The alias names the declaration; register first so branches that
+  // refer back to it (type Flatten<T> = ... Flatten<U> ...) terminate
+  if (isAliasDeclarationType(type, typeChecker)) {
+    const fqName = getQualifiedSymbolName(type.aliasSymbol!, typeChecker);
+    if (!rttiMap.has(fqName)) {
+      registerPlaceholder(
+        type,
+        {
+          fqName,
+          kind: OpCodes.REF_CONDITIONAL,
+          data,
+        } as RTTIConditionalMetadata,
+        context
+      );
+      fill();
+    }
+    return { kind: "ref", fqName };
+  }
+
+  // Otherwise (inline or deferred instantiations) key by content
+  markUnnamed(type, context);
+  fill();
+  const infers = data.inferTypeParams.map((g) => g.name).join(",");
+  const fqName = `__conditional_${fnv1aHash(
+    `${rttiTypeRefToString(data.checkType)} extends ${rttiTypeRefToString(
+      data.extendsType
+    )}${infers ? ` infer ${infers}` : ""} ? ${rttiTypeRefToString(
+      data.trueType
+    )} : ${rttiTypeRefToString(data.falseType)}${
+      data.distributive ? "" : " nondistributive"
+    }`
+  ).toString(16)}`;
+  if (!rttiMap.has(fqName)) {
+    rttiMap.set(fqName, {
+      fqName,
+      kind: OpCodes.REF_CONDITIONAL,
+      data,
+    } as RTTIConditionalMetadata);
+  }
+  return { kind: "ref", fqName };
+}
+
+// `infer U` positions of an extends clause; those inside a nested
+// conditional belong to that conditional
+function collectInferTypeNodes(node: ts.Node): ts.InferTypeNode[] {
+  if (ts.isInferTypeNode(node)) return [node];
+  if (ts.isConditionalTypeNode(node)) return [];
+  const found: ts.InferTypeNode[] = [];
+  ts.forEachChild(node, (child) => {
+    found.push(...collectInferTypeNodes(child));
+  });
+  return found;
+}
+
+/**
+ * { [P in keyof T]?: T[P] } and friends: key parameter, constraint, template,
+ * modifiers, `as` clause and homomorphic source.
+ */
+function extractMappedTypeRTTI(
+  type: ts.Type,
+  context: RTTIExtractContext
+): RTTITypeRef {
+  const { typeChecker, rttiMap } = context;
+  const mappedType = type as any;
+  const declaration: ts.MappedTypeNode = mappedType.declaration;
+  // Resolving members fills in the checker's cached parts of the mapping
+  const resolvedProps = typeChecker.getPropertiesOfType(type);
+  const keyName = declaration.typeParameter.name.text;
+  const constraintType: ts.Type =
+    mappedType.constraintType ?? typeChecker.getAnyType();
+  // Instantiations (Partial<Point>) don't cache their template; fall back to
+  // the declared one, with sourceType saying what it was applied to
+  const templateType: ts.Type =
+    mappedType.templateType ??
+    typeChecker.getTypeFromTypeNode(declaration.type!);
+  // Generic mappings have no concrete props; their instantiations
+  // (DeepPartial<T[K]>) point at the alias
+  const generic = !!(constraintType.flags & ts.TypeFlags.Instantiable);
+  if (generic) {
+    const instance = extractAliasInstantiation(type, context);
+    if (instance) return instance;
+  }
+  // Concrete instantiations of a mapped alias (Readonly<Point>) are named by
+  // the alias and its arguments; the checker only keeps the declared template
+  // and `as` clause for them, so bind those to the arguments
+  const instantiation =
+    !generic && !isAliasDeclarationType(type, typeChecker)
+      ? getAliasBindings(type, context)
+      : undefined;
+  const bind = (ref: RTTITypeRef) =>
+    instantiation
+      ? instantiateTemplateRef(
+          ref,
+          instantiation.bindings,
+          instantiation.owner,
+          context
+        )
+      : ref;
+  // Only `keyof X` mappings are homomorphic (carry X's modifiers)
+  const keyofConstraint = declaration.typeParameter.constraint;
+  const sourceType: ts.Type | undefined =
+    keyofConstraint &&
+    ts.isTypeOperatorNode(keyofConstraint) &&
+    keyofConstraint.operator === ts.SyntaxKind.KeyOfKeyword
+      ? mappedType.modifiersType
+      : undefined;
+  const arrayLike =
+    !!sourceType &&
+    (isArrayType(sourceType, typeChecker) ||
+      typeChecker.isTupleType(sourceType));
+  const modifiers = getMappedModifiers(declaration);
+  const data = {
+    keyName,
+    mappedModifiers: modifiers,
+  } as RTTIMappedMetadata["data"];
+  const fill = () => {
+    // Array/tuple keys would list every Array method; keep them as `keyof X`
+    data.keyConstraint = arrayLike
+      ? registerKeyof(sourceType!, undefined, context)
+      : extractTypeRTTI(constraintType, context);
+    data.valueType = bind(extractTypeRTTI(templateType, context));
+    const nameType: ts.Type | undefined =
+      mappedType.nameType ??
+      (declaration.nameType &&
+        typeChecker.getTypeFromTypeNode(declaration.nameType));
+    data.nameType = nameType
+      ? bind(extractTypeRTTI(nameType, context))
+      : undefined;
+    data.sourceType = sourceType && extractTypeRTTI(sourceType, context);
+    // Array/tuple sources map to arrays/tuples, which the refs describe
+    if (
+      context.resolveMappedProps &&
+      !generic &&
+      !arrayLike &&
+      resolvedProps.length
+    ) {
+      data.props = extractObjectProps(type, context).map((p) => ({
+        ...p,
+        flags:
+          modifiers & MappedModifiers.IncludeReadonly
+            ? p.flags | MemberFlags.Readonly
+            : modifiers & MappedModifiers.ExcludeReadonly
+            ? p.flags & ~MemberFlags.Readonly
+            : p.flags,
+      }));
+    }
+  };
+
+  // The alias names the declaration; register first so a template that
+  // refers back to it (DeepPartial<T[K]>) terminates
+  if (isAliasDeclarationType(type, typeChecker)) {
+    const fqName = getQualifiedSymbolName(type.aliasSymbol!, typeChecker);
+    if (!rttiMap.has(fqName)) {
+      registerPlaceholder(
+        type,
+        { fqName, kind: OpCodes.REF_MAPPED, data } as RTTIMappedMetadata,
+        context
+      );
+      fill();
+    }
+    return { kind: "ref", fqName };
+  }
+
+  if (instantiation) {
+    if (!rttiMap.has(instantiation.fqName)) {
+      registerPlaceholder(
+        type,
+        {
+          fqName: instantiation.fqName,
+          kind: OpCodes.REF_MAPPED,
+          data,
+        } as RTTIMappedMetadata,
+        context
+      );
+      fill();
+    }
+    return { kind: "ref", fqName: instantiation.fqName };
+  }
+
+  // Otherwise keyed by content only, like literals
+  markUnnamed(type, context);
+  fill();
+  const mods = mappedModifiersToString(modifiers);
+  const fqName = `Mapped<${[data.keyConstraint, data.valueType]
+    .filter((ref): ref is RTTITypeRef => !!ref)
+    .map(rttiTypeRefToString)
+    .join(",")}${
+    data.nameType ? ` as ${rttiTypeRefToString(data.nameType)}` : ""
+  }${data.sourceType ? ` from ${rttiTypeRefToString(data.sourceType)}` : ""}${
+    mods ? `;${mods}` : ""
+  }>`;
+  if (!rttiMap.has(fqName)) {
+    rttiMap.set(fqName, {
+      fqName,
+      kind: OpCodes.REF_MAPPED,
+      data,
+    } as RTTIMappedMetadata);
+  }
+  return { kind: "ref", fqName };
+}
+
+/**
+ * Like extractTypeRTTI, but starts from the written type so `keyof T` and
+ * `T[K]` keep their operator even when the checker resolves them away.
+ */
+export function extractTypeNodeRTTI(
+  node: ts.TypeNode,
+  context: RTTIExtractContext
+): RTTITypeRef {
+  const { typeChecker } = context;
+  const resolved = typeChecker.getTypeFromTypeNode(node);
+  if (
+    ts.isTypeOperatorNode(node) &&
+    node.operator === ts.SyntaxKind.KeyOfKeyword
+  ) {
+    const operand = typeChecker.getTypeFromTypeNode(node.type);
+    return registerKeyof(operand, resolved, context);
+  }
+  if (ts.isIndexedAccessTypeNode(node)) {
+    return registerIndexedAccess(
+      typeChecker.getTypeFromTypeNode(node.objectType),
+      typeChecker.getTypeFromTypeNode(node.indexType),
+      resolved,
+      context
+    );
+  }
+  return extractTypeRTTI(resolved, context);
+}
+
+function registerKeyof(
+  operand: ts.Type,
+  resolved: ts.Type | undefined,
+  context: RTTIExtractContext
+): RTTITypeRef {
+  const { typeChecker, rttiMap } = context;
+  const operandRef = extractTypeRTTI(operand, context);
+  // Still generic: nothing to resolve. Keys of arrays, tuples and lib types
+  // are their lib members, which aren't recorded either
+  const concrete =
+    resolved &&
+    !(resolved.flags & ts.TypeFlags.Index) &&
+    !isArrayType(operand, typeChecker) &&
+    !typeChecker.isTupleType(operand) &&
+    !getOpaqueLibType(operand, typeChecker);
+  const keys = concrete
+    ? resolved.flags & ts.TypeFlags.Never
+      ? []
+      : (resolved.isUnion() ? resolved.types : [resolved]).map((t) =>
+          extractTypeRTTI(t, context)
+        )
+    : undefined;
+  const fqName = `Keyof<${rttiTypeRefToString(operandRef)}>`;
+  if (!rttiMap.has(fqName)) {
+    rttiMap.set(fqName, {
+      fqName,
+      kind: OpCodes.REF_KEYOF,
+      data: { operand: operandRef, keys },
+    } as RTTIKeyofMetadata);
+  }
+  return { kind: "ref", fqName };
+}
+
+function registerIndexedAccess(
+  objectType: ts.Type,
+  indexType: ts.Type,
+  resolved: ts.Type | undefined,
+  context: RTTIExtractContext
+): RTTITypeRef {
+  const { rttiMap } = context;
+  const objectRef = extractTypeRTTI(objectType, context);
+  const indexRef = extractTypeRTTI(indexType, context);
+  const resolvedRef =
+    resolved && !(resolved.flags & ts.TypeFlags.IndexedAccess)
+      ? extractTypeRTTI(resolved, context)
+      : undefined;
+  const fqName = `IndexedAccess<${rttiTypeRefToString(
+    objectRef
+  )},${rttiTypeRefToString(indexRef)}>`;
+  if (!rttiMap.has(fqName)) {
+    rttiMap.set(fqName, {
+      fqName,
+      kind: OpCodes.REF_INDEXED_ACCESS,
+      data: {
+        objectType: objectRef,
+        indexType: indexRef,
+        resolved: resolvedRef,
+      },
+    } as RTTIIndexedAccessMetadata);
+  }
+  return { kind: "ref", fqName };
+}
+
+/**
+ * Instantiations of a generic alias (Node<string>) point at the alias, like
+ * interface instantiations. Undefined for the alias declaration itself and
+ * for types without an alias.
+ */
+function extractAliasInstantiation(
+  type: ts.Type,
+  context: RTTIExtractContext
+): RTTITypeRef | undefined {
+  const { typeChecker, rttiMap } = context;
+  if (!type.aliasSymbol || isAliasDeclarationType(type, typeChecker))
+    return undefined;
+  const baseRef = extractTypeRTTI(
+    typeChecker.getDeclaredTypeOfSymbol(type.aliasSymbol),
+    context
+  );
+  if (baseRef.kind !== "ref") return undefined;
+  const argRefs = (type.aliasTypeArguments ?? []).map((t) =>
+    extractTypeRTTI(t, context)
+  );
+  const fqName = `${baseRef.fqName}<${argRefs
+    .map(rttiTypeRefToString)
+    .join(",")}>`;
+  if (!rttiMap.has(fqName)) {
+    rttiMap.set(fqName, {
+      fqName,
+      kind: OpCodes.REF_GENERIC,
+      data: { base: baseRef.fqName, args: argRefs },
+    } as RTTIGenericMetadata);
+  }
+  return { kind: "ref", fqName };
+}
+
+/**
+ * Name of an alias instantiation (`Readonly<"src/Point".Point>`) and its
+ * arguments keyed by the alias's type parameter names.
+ */
+function getAliasBindings(
+  type: ts.Type,
+  context: RTTIExtractContext
+):
+  | { fqName: string; owner: string; bindings: Map<string, RTTITypeRef> }
+  | undefined {
+  const { typeChecker } = context;
+  const decl = type.aliasSymbol?.declarations?.[0];
+  if (!decl || !ts.isTypeAliasDeclaration(decl)) return undefined;
+  const owner = getQualifiedSymbolName(type.aliasSymbol!, typeChecker);
+  const argRefs = (type.aliasTypeArguments ?? []).map((t) =>
+    extractTypeRTTI(t, context)
+  );
+  const bindings = new Map<string, RTTITypeRef>();
+  (decl.typeParameters ?? []).forEach((tp, i) => {
+    if (argRefs[i]) bindings.set(tp.name.text, argRefs[i]!);
+  });
+  return {
+    fqName: `${owner}<${argRefs.map(rttiTypeRefToString).join(",")}>`,
+    owner,
+    bindings,
+  };
+}
+
+/**
+ * A ref with the type parameters of an alias replaced by its arguments.
+ * Generic, union/intersection, function, keyof and indexed-access entries
+ * are rebuilt under the names extractTypeRTTI gives them; others are kept.
+ */
+function instantiateTemplateRef(
+  ref: RTTITypeRef,
+  bindings: Map<string, RTTITypeRef>,
+  owner: string,
+  context: RTTIExtractContext,
+  visiting = new Set<string>()
+): RTTITypeRef {
+  if (ref.kind === "typeParam")
+    return ref.owner === owner ? bindings.get(ref.name) ?? ref : ref;
+  // Recursive aliases (type Json = ... | Json[]) lead back to themselves
+  if (ref.kind !== "ref" || visiting.has(ref.fqName)) return ref;
+  const { rttiMap } = context;
+  const meta = rttiMap.get(ref.fqName);
+  if (!meta) return ref;
+  visiting.add(ref.fqName);
+  const bind = (r: RTTITypeRef) =>
+    instantiateTemplateRef(r, bindings, owner, context, visiting);
+  let instance: RTTIMetadata | undefined;
+  switch (meta.kind) {
+    case OpCodes.REF_GENERIC: {
+      const args = meta.data.args.map(bind);
+      if (args.some((r, i) => r !== meta.data.args[i]))
+        instance = {
+          fqName: `${meta.data.base}<${args
+            .map(rttiTypeRefToString)
+            .join(",")}>`,
+          kind: meta.kind,
+          data: { ...meta.data, args },
+        };
+      break;
+    }
+    case OpCodes.REF_UNION:
+    case OpCodes.REF_INTERSECTION: {
+      const members = meta.data.members.map(bind);
+      if (members.some((r, i) => r !== meta.data.members[i]))
+        instance = {
+          fqName:
+            (meta.kind === OpCodes.REF_UNION ? "union" : "inter") +
+            "_" +
+            members.map(rttiTypeRefToString).join("_"),
+          kind: meta.kind,
+          data: { members },
+        } as RTTIUnionMetadata | RTTIIntersectionMetadata;
+      break;
+    }
+    case OpCodes.REF_FUNCTION: {
+      const bindSignature = <
+        S extends RTTIFunctionMetadata["data"] | RTTIMethodOverload
+      >(
+        sig: S
+      ): S => ({
+        ...sig,
+        params: sig.params.map((p) => ({ ...p, type: bind(p.type) })),
+        returnType: bind(sig.returnType),
+      });
+      const data = bindSignature(meta.data);
+      data.overloads = meta.data.overloads?.map(bindSignature);
+      const construct = !!meta.data.construct;
+      const fqName = getFunctionName(data.overloads ?? [data], construct);
+      if (
+        fqName !==
+        getFunctionName(meta.data.overloads ?? [meta.data], construct)
+      )
+        instance = { fqName, kind: meta.kind, data };
+      break;
+    }
+    case OpCodes.REF_KEYOF: {
+      const operand = bind(meta.data.operand);
+      if (operand !== meta.data.operand)
+        instance = {
+          fqName: `Keyof<${rttiTypeRefToString(operand)}>`,
+          kind: meta.kind,
+          data: { operand },
+        };
+      break;
+    }
+    case OpCodes.REF_INDEXED_ACCESS: {
+      const objectType = bind(meta.data.objectType);
+      const indexType = bind(meta.data.indexType);
+      if (
+        objectType !== meta.data.objectType ||
+        indexType !== meta.data.indexType
+      )
+        instance = {
+          fqName: `IndexedAccess<${rttiTypeRefToString(
+            objectType
+          )},${rttiTypeRefToString(indexType)}>`,
+          kind: meta.kind,
+          data: { objectType, indexType },
+        };
+      break;
+    }
+  }
+  visiting.delete(ref.fqName);
+  if (!instance) return ref;
+  if (!rttiMap.has(instance.fqName)) rttiMap.set(instance.fqName, instance);
+  return { kind: "ref", fqName: instance.fqName };
+}
+
+/**
+ * True when the type is the body of its alias declaration itself
+ * (`type CompareFn<T> = ...` rather than an instantiation like `CompareFn<string>`).
+ */
+function isAliasDeclarationType(
+  type: ts.Type,
+  checker: ts.TypeChecker
+): boolean {
+  if (!type.aliasSymbol) return false;
+  if (!type.aliasTypeArguments) return true;
+  const decl = type.aliasSymbol.declarations?.[0];
+  const typeParams =
+    decl && ts.isTypeAliasDeclaration(decl) ? decl.typeParameters ?? [] : [];
+  return type.aliasTypeArguments.every(
+    (t, i) => !!typeParams[i] && checker.getTypeAtLocation(typeParams[i]) === t
+  );
+}
+
+function extractTypeParameterRTTI(
+  tp: ts.TypeParameter,
+  context: RTTIExtractContext
+): RTTIGenericParam {
+  const constraint = tp.getConstraint();
+  return {
+    name: tp.symbol.getName(),
+    constraint: constraint ? extractTypeRTTI(constraint, context) : undefined,
+  };
+}
+
+/**
+ * A single call/construct signature as params + return type.
+ */
+export function extractSignatureRTTI(
+  signature: ts.Signature,
+  context: RTTIExtractContext
+): RTTIMethodOverload {
+  const { typeChecker } = context;
+  const params: RTTIParameter[] = signature.parameters.map((param) => {
+    const decl = param.valueDeclaration ?? param.declarations?.[0];
+    const paramType = decl
+      ? typeChecker.getTypeOfSymbolAtLocation(param, decl)
+      : typeChecker.getAnyType();
+    return {
+      name: param.getName(),
+      type: extractTypeRTTI(paramType, context),
+      decorators: [],
+      jsdoc: extractJSDoc(param, typeChecker),
+      location: getSourceLocation(decl),
+      ...(decl && ts.isParameter(decl)
+        ? extractParameterModifiers(decl, typeChecker)
+        : {}),
+    };
+  });
+  return {
+    params,
+    returnType: extractTypeRTTI(signature.getReturnType(), context),
+    decorators: [],
+  };
+}
+
+/**
+ * 1-based position of a declaration's name. Declarations from installed
+ * packages and the default lib aren't located.
+ */
+export function getSourceLocation(
+  node: ts.Node | undefined
+): RTTISourceLocation | undefined {
+  if (!node) return undefined;
+  const sourceFile = node.getSourceFile();
+  if (
+    sourceFile.isDeclarationFile &&
+    (sourceFile.hasNoDefaultLib || sourceFile.fileName.includes("node_modules"))
+  )
+    return undefined;
+  const target = ts.getNameOfDeclaration(node as ts.Declaration) ?? node;
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+    target.getStart(sourceFile)
+  );
+  return {
+    file: normalizeModulePath(sourceFile.fileName),
+    line: line + 1,
+    column: character + 1,
+  };
+}
+
+/**
+ * Documentation comment and tags of a declaration, or undefined if it has none.
+ */
+export function extractJSDoc(
+  source: ts.Symbol | ts.Signature | undefined,
+  typeChecker: ts.TypeChecker
+): RTTIJSDoc | undefined {
+  if (!source) return undefined;
+  const summary = ts.displayPartsToString(
+    source.getDocumentationComment(typeChecker)
+  );
+  const tags = source.getJsDocTags().map((tag) => ({
+    name: tag.name,
+    text: ts.displayPartsToString(tag.text),
+  }));
+  if (!summary && tags.length === 0) return undefined;
+  return { summary, tags };
+}
+
+/**
+ * String, number, symbol and template-literal index signatures of an object type.
+ */
+export function extractIndexSignatures(
+  type: ts.Type,
+  context: RTTIExtractContext
+): RTTIIndexSignature[] {
+  return context.typeChecker.getIndexInfosOfType(type).map((info) => ({
+    keyType: extractTypeRTTI(info.keyType, context),
+    valueType: extractTypeRTTI(info.type, context),
+    readonly: info.isReadonly,
+  }));
+}
+
+/**
+ * MemberFlags for a class or interface member declaration.
+ */
+export function getMemberFlags(
+  member: ts.Declaration,
+  checker: ts.TypeChecker
+): number {
+  const modifiers = ts.getCombinedModifierFlags(member);
+  let flags = MemberFlags.None;
+  if (modifiers & ts.ModifierFlags.Static) flags |= MemberFlags.Static;
+  if (modifiers & ts.ModifierFlags.Readonly) flags |= MemberFlags.Readonly;
+  if ("questionToken" in member && member.questionToken)
+    flags |= MemberFlags.Optional;
+  if (modifiers & ts.ModifierFlags.Private) flags |= MemberFlags.Private;
+  else if (modifiers & ts.ModifierFlags.Protected)
+    flags |= MemberFlags.Protected;
+  if (modifiers & ts.ModifierFlags.Abstract) flags |= MemberFlags.Abstract;
+  if (modifiers & ts.ModifierFlags.Async) flags |= MemberFlags.Async;
+  if ("asteriskToken" in member && member.asteriskToken)
+    flags |= MemberFlags.Generator;
+  if (modifiers & ts.ModifierFlags.Override) flags |= MemberFlags.Override;
+  if (modifiers & ts.ModifierFlags.Accessor) flags |= MemberFlags.Accessor;
+
+  const name = ts.getNameOfDeclaration(member);
+  if (name && ts.isPrivateIdentifier(name)) flags |= MemberFlags.PrivateName;
+  if (name && ts.isComputedPropertyName(name)) {
+    flags |= MemberFlags.Computed;
+    if (
+      checker.getTypeAtLocation(name.expression).flags &
+      ts.TypeFlags.ESSymbolLike
+    )
+      flags |= MemberFlags.SymbolKey;
+  }
+  return flags;
+}
+
+/**
+ * Display name of a member: identifiers, `#private` names and literal keys as
+ * written; computed keys by their literal value, or as `[expr]` for symbols.
+ */
+export function getMemberName(
+  name: ts.PropertyName,
+  checker: ts.TypeChecker
+): string {
+  if (!ts.isComputedPropertyName(name)) return name.text;
+  const type = checker.getTypeAtLocation(name.expression);
+  if (type.isStringLiteral() || type.isNumberLiteral())
+    return String(type.value);
+  return `[${name.expression.getText()}]`;
+}
+
+/**
+ * Optional/rest/default flags of a parameter, with the default initializer's
+ * source text and, when it is a constant, its value.
+ */
+export function extractParameterModifiers(
+  decl: ts.ParameterDeclaration,
+  typeChecker: ts.TypeChecker
+): Pick<RTTIParameter, "flags" | "defaultText" | "defaultValue"> {
+  let flags = ParameterFlags.None;
+  if (typeChecker.isOptionalParameter(decl)) flags |= ParameterFlags.Optional;
+  if (decl.dotDotDotToken) flags |= ParameterFlags.Rest;
+  if (!decl.initializer) return { flags };
+
+  flags |= ParameterFlags.HasDefault;
+  return {
+    flags,
+    defaultText: decl.initializer.getText(),
+    defaultValue: evaluateConstant(decl.initializer, typeChecker),
+  };
+}
+
+function evaluateConstant(
+  expr: ts.Expression,
+  typeChecker: ts.TypeChecker
+): string | number | boolean | null | undefined {
+  if (ts.isStringLiteral(expr) || ts.isNoSubstitutionTemplateLiteral(expr))
+    return expr.text;
+  if (ts.isNumericLiteral(expr)) return Number(expr.text);
+  if (
+    ts.isPrefixUnaryExpression(expr) &&
+    ts.isNumericLiteral(expr.operand) &&
+    (expr.operator === ts.SyntaxKind.MinusToken ||
+      expr.operator === ts.SyntaxKind.PlusToken)
+  ) {
+    const value = Number(expr.operand.text);
+    return expr.operator === ts.SyntaxKind.MinusToken ? -value : value;
+  }
+  if (expr.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (expr.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (expr.kind === ts.SyntaxKind.NullKeyword) return null;
+  // Enum members (Mode.Read)
+  if (ts.isPropertyAccessExpression(expr) || ts.isElementAccessExpression(expr))
+    return typeChecker.getConstantValue(expr);
+  return undefined;
+}
+
+/**
+ * Structural property list of an object type (class/interface instance or literal).
+ */
+function extractObjectProps(
+  type: ts.Type,
+  context: RTTIExtractContext
+): RTTIPropInfo[] {
+  const { typeChecker } = context;
+  const props: RTTIPropInfo[] = [];
+  for (const prop of type.getProperties()) {
+    const decl = prop.valueDeclaration ?? prop.declarations?.[0];
+    if (!decl) continue;
+    const propType = typeChecker.getTypeOfSymbolAtLocation(prop, decl);
+
+    let flags = getMemberFlags(decl, typeChecker);
+    if (prop.flags & ts.SymbolFlags.Optional) flags |= MemberFlags.Optional;
+
+    props.push({
+      name: prop.getName(),
+      kind: "property",
+      type: extractTypeRTTI(propType, context),
+      flags,
+      decorators: [],
+      jsdoc: extractJSDoc(prop, typeChecker),
+      location: getSourceLocation(decl),
+    });
+  }
+  return props;
 }
@@ -1,6 +1,47 @@
-import { decodeRTTIEntry } from "./decoder";
-import { OpCode, decodeVarint } from "./protocol";
+import { decodeRTTIEntry, type DecodedRTTIEntry } from "./decoder";
+import { Introspector } from "./introspect";
+import type { IndexEntry } from "./protocol";
 import { MetadataStore } from "./reader";
+import { MemberFlags, OpCodes, PrimitiveTypes } from "./types";
+import type { RTTIParameter, RTTIPropInfo, RTTITypeRef } from "./types";
+
+// `typeof` results for primitive property types checked in strict mode
+const PRIMITIVE_TYPEOF: Partial<Record<number, string>> = {
+  [PrimitiveTypes.String]: "string",
+  [PrimitiveTypes.Number]: "number",
+  [PrimitiveTypes.Boolean]: "boolean",
+  [PrimitiveTypes.BigInt]: "bigint",
+};
+
+// Runtime class a builtin-typed property must be an instance of in strict
+// mode; read-only views accept their mutable counterparts
+const BUILTIN_CONSTRUCTORS: Partial<Record<string, Function>> = {
+  Promise,
+  Map,
+  Set,
+  WeakMap,
+  WeakSet,
+  ReadonlyMap: Map,
+  ReadonlySet: Set,
+  ReadonlyArray: Array,
+  Record: Object,
+  Date,
+  RegExp,
+  Error,
+  ArrayBuffer,
+  DataView,
+  Int8Array,
+  Uint8Array,
+  Uint8ClampedArray,
+  Int16Array,
+  Uint16Array,
+  Int32Array,
+  Uint32Array,
+  Float32Array,
+  Float64Array,
+  BigInt64Array,
+  BigUint64Array,
+};
 
 /**
  * Hydrator: validates objects and optionally constructs new instances
@@ -8,17 +49,19 @@ import { MetadataStore } from "./reader";
  */
 export class Hydrator {
   static store: MetadataStore;
+  static introspector: Introspector;
 
   static async init(file: string = "metadata.bin") {
     Hydrator.store = new MetadataStore();
     await Hydrator.store.load(file);
+    Hydrator.introspector = new Introspector(Hydrator.store);
   }
 
   /**
-   * Hydrates a class from metadata
+   * Hydrates a class or interface from metadata
    * @param typeName Named type to hydrate (fqName)
    * @param data JS object
-   * @param strict If true, enforces property types
+   * @param strict If true, enforces property types and throws on mismatches
    */
   static hydrate<T>(
     typeName: string,
@@ -29,131 +72,84 @@ export class Hydrator {
       throw new Error("Hydrator not initialized. Call init() first.");
     const entry = Hydrator.store.getEntryByName(typeName);
     if (!entry) return undefined;
-    const buf = Hydrator.store.getMetadataBuffer(entry);
-    let offset = 0;
-    const opCode = buf[offset++];
-    if (opCode !== OpCode.REF_CLASS) return undefined;
-
-    const fqNameDecode = decodeVarint(buf, offset);
-    offset = fqNameDecode.next;
-
-    const propDecode = decodeVarint(buf, offset);
-    const propCount = propDecode.value;
-    offset = propDecode.next;
+    const meta = Hydrator.decode(entry);
+    if (meta.kind !== OpCodes.REF_CLASS && meta.kind !== OpCodes.REF_OBJECT)
+      return undefined;
 
     let props: { [key: string]: unknown } = {};
-    for (let i = 0; i < propCount; i++) {
-      const nameIdxDecode = decodeVarint(buf, offset);
-      const nameIdx = nameIdxDecode.value;
-      offset = nameIdxDecode.next;
-
-      const typeDecode = decodeVarint(buf, offset);
-      offset = typeDecode.next;
-
-      const flagsDecode = decodeVarint(buf, offset);
-      offset = flagsDecode.next;
-
-      // member decorators
-      const decoCountDecode = decodeVarint(buf, offset);
-      const decoCount = decoCountDecode.value;
-      offset = decoCountDecode.next;
-      for (let d = 0; d < decoCount; d++) {
-        const decoNameDecode = decodeVarint(buf, offset);
-        offset = decoNameDecode.next;
-        const argsCountDecode = decodeVarint(buf, offset);
-        const argsCount = argsCountDecode.value;
-        offset = argsCountDecode.next;
-        for (let a = 0; a < argsCount; a++) {
-          const argIdxDecode = decodeVarint(buf, offset);
-          offset = argIdxDecode.next;
-        }
-      }
-      // parameters (methods/accessors)
-      const paramCountDecode = decodeVarint(buf, offset);
-      const paramCount = paramCountDecode.value;
-      offset = paramCountDecode.next;
-      for (let p = 0; p < paramCount; p++) {
-        const paramNameDecode = decodeVarint(buf, offset);
-        offset = paramNameDecode.next;
-        const paramTypeDecode = decodeVarint(buf, offset);
-        offset = paramTypeDecode.next;
-        const paramDecoCountDecode = decodeVarint(buf, offset);
-        const paramDecoCount = paramDecoCountDecode.value;
-        offset = paramDecoCountDecode.next;
-        for (let pd = 0; pd < paramDecoCount; pd++) {
-          const paramDecoNameDecode = decodeVarint(buf, offset);
-          offset = paramDecoNameDecode.next;
-          const paramDecoArgsCountDecode = decodeVarint(buf, offset);
-          const paramDecoArgsCount = paramDecoArgsCountDecode.value;
-          offset = paramDecoArgsCountDecode.next;
-          for (let pa = 0; pa < paramDecoArgsCount; pa++) {
-            const paramArgIdxDecode = decodeVarint(buf, offset);
-            offset = paramArgIdxDecode.next;
-          }
-        }
+    for (const member of meta.props) {
+      // Older files don't record member kinds; their members are properties
+      if ((member.kind ?? "property") !== "property") continue;
+      // `#x` and symbol-keyed fields can't come from plain JSON data
+      if (member.flags & (MemberFlags.PrivateName | MemberFlags.SymbolKey))
+        continue;
+      props[member.name] = Hydrator.hydrateValue(
+        typeName,
+        member,
+        data[member.name],
+        strict
+      );
+    }
+    // Dictionary-shaped types keep the extra keys their index signatures
+    // allow, checked against the signature's value type
+    if (meta.indexSignatures?.length && data) {
+      for (const key of Object.keys(data)) {
+        if (key in props) continue;
+        const sig = Hydrator.introspector.getIndexSignatureForKey(
+          typeName,
+          key
+        );
+        if (!sig) continue;
+        const slot: RTTIPropInfo = {
+          name: key,
+          type: sig.valueType,
+          flags: MemberFlags.None,
+          decorators: [],
+        };
+        props[key] = Hydrator.hydrateValue(typeName, slot, data[key], strict);
       }
-
-      const propName = Hydrator.store.getStrings()[nameIdx];
-      props[propName] = data[propName];
     }
     return props as T;
   }
 
+  /**
+   * Revives a property or index-signature value and, in strict mode, checks it
+   * against the declared type.
+   */
+  private static hydrateValue(
+    typeName: string,
+    member: RTTIPropInfo,
+    value: unknown,
+    strict: boolean
+  ): unknown {
+    const revived = Hydrator.reviveBuiltin(typeName, member, value, strict);
+    if (strict) {
+      Hydrator.checkPrimitive(typeName, member, revived);
+      Hydrator.checkTemplateLiteral(typeName, member, revived);
+    }
+    return revived;
+  }
+
   /**
    * Returns only the basic signature (params + return type) of a function.
    */
   static getFunctionSignature(
     funcName: string
   ):
-    | { params: { name: string; type: number }[]; returnType: number }
+    | { params: { name: string; type: RTTITypeRef }[]; returnType: RTTITypeRef }
     | undefined {
     if (!Hydrator.store)
       throw new Error("Hydrator not initialized. Call init() first.");
     const entry = Hydrator.store.getEntryByName(funcName);
     if (!entry) return undefined;
-    const buf = Hydrator.store.getMetadataBuffer(entry);
-
-    let offset = 0;
-    const opCode = buf[offset++];
-    if (opCode !== OpCode.REF_FUNCTION) return undefined;
-
-    // fqName varint
-    offset = decodeVarint(buf, offset).next;
-
-    // paramCount varint
-    const paramDecode = decodeVarint(buf, offset);
-    const paramCount = paramDecode.value;
-    offset = paramDecode.next;
-
-    let params: { name: string; type: number }[] = [];
-    for (let i = 0; i < paramCount; i++) {
-      const nameIdxDecode = decodeVarint(buf, offset);
-      const nameIdx = nameIdxDecode.value;
-      offset = nameIdxDecode.next;
+    const meta = Hydrator.decode(entry);
+    if (meta.kind !== OpCodes.REF_FUNCTION) return undefined;
 
-      const typeDecode = decodeVarint(buf, offset);
-      const typeCode = typeDecode.value;
-      offset = typeDecode.next;
-
-      // Skip decorators on parameters for this basic signature
-      const decoCount = decodeVarint(buf, offset).value;
-      offset = decodeVarint(buf, offset).next;
-      for (let d = 0; d < decoCount; d++) {
-        offset = decodeVarint(buf, offset).next; // deco name
-        const argCount = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-        for (let a = 0; a < argCount; a++) {
-          offset = decodeVarint(buf, offset).next;
-        }
-      }
-      params.push({
-        name: Hydrator.store.getStrings()[nameIdx],
-        type: typeCode,
-      });
-    }
-
-    const returnType = decodeVarint(buf, offset).value;
-    return { params, returnType };
+    const params = meta.params.map((p) => ({
+      name: p.name,
+      type: p.type,
+    }));
+    return { params, returnType: meta.returnType };
   }
 
   /**
@@ -161,69 +157,17 @@ export class Hydrator {
    */
   static getFunctionSignatureWithDecorators(funcName: string):
     | {
-        params: {
-          name: string;
-          type: number;
-          decorators: { name: string; args: string[] }[];
-        }[];
-        returnType: number;
+        params: RTTIParameter[];
+        returnType: RTTITypeRef;
       }
     | undefined {
     if (!Hydrator.store)
       throw new Error("Hydrator not initialized. Call init() first.");
     const entry = Hydrator.store.getEntryByName(funcName);
     if (!entry) return undefined;
-    const buf = Hydrator.store.getMetadataBuffer(entry);
-
-    let offset = 0;
-    const opCode = buf[offset++];
-    if (opCode !== OpCode.REF_FUNCTION) return undefined;
-    offset = decodeVarint(buf, offset).next;
-
-    const paramCtDecode = decodeVarint(buf, offset);
-    const paramCount = paramCtDecode.value;
-    offset = paramCtDecode.next;
-
-    let params: {
-      name: string;
-      type: number;
-      decorators: { name: string; args: string[] }[];
-    }[] = [];
-    for (let i = 0; i < paramCount; i++) {
-      const nameIdxDecode = decodeVarint(buf, offset);
-      const nameIdx = nameIdxDecode.value;
-      offset = nameIdxDecode.next;
-      const typeDecode = decodeVarint(buf, offset);
-      const typeCode = typeDecode.value;
-      offset = typeDecode.next;
-
-      const decoCount = decodeVarint(buf, offset).value;
-      offset = decodeVarint(buf, offset).next;
-      const decorators: { name: string; args: string[] }[] = [];
-      for (let d = 0; d < decoCount; d++) {
-        const decoNameIdx = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-        const argCount = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-        const args: string[] = [];
-        for (let a = 0; a < argCount; a++) {
-          const argIdx = decodeVarint(buf, offset).value;
-          offset = decodeVarint(buf, offset).next;
-          args.push(Hydrator.store.getStrings()[argIdx]);
-        }
-        decorators.push({
-          name: Hydrator.store.getStrings()[decoNameIdx],
-          args,
-        });
-      }
-      params.push({
-        name: Hydrator.store.getStrings()[nameIdx],
-        type: typeCode,
-        decorators,
-      });
-    }
-    const returnType = decodeVarint(buf, offset).value;
-    return { params, returnType };
+    const meta = Hydrator.decode(entry);
+    if (meta.kind !== OpCodes.REF_FUNCTION) return undefined;
+    return { params: meta.params, returnType: meta.returnType };
   }
 
   /**
@@ -234,75 +178,107 @@ export class Hydrator {
       throw new Error("Hydrator not initialized. Call init() first.");
     const entry = Hydrator.store.getEntryByName(typeName);
     if (!entry) return undefined;
-    const buf = Hydrator.store.getMetadataBuffer(entry);
+    const meta = Hydrator.decode(entry);
+    return ("generics" in meta ? meta.generics : []).map((g) => g.name);
+  }
 
-    let offset = 0;
-    const opCode = buf[offset++];
-    // fqName
-    offset = decodeVarint(buf, offset).next;
+  /**
+   * Throws if a primitive-typed property holds a value of another type,
+   * citing where the property is declared.
+   */
+  private static checkPrimitive(
+    typeName: string,
+    member: RTTIPropInfo,
+    value: unknown
+  ): void {
+    if (member.type.kind !== "primitive") return;
+    const expected = PRIMITIVE_TYPEOF[member.type.type];
+    if (!expected || typeof value === expected) return;
+    if (value === undefined && member.flags & MemberFlags.Optional) return;
+    throw new Error(
+      `Hydrator: ${typeName}.${member.name} expects ${expected}, got ${
+        value === null ? "null" : typeof value
+      }${Hydrator.declaredAt(member)}`
+    );
+  }
 
-    // Skip params/props/decoration blocks (minimal skipping shown for demo; real skipping matches how you serialize)
-    if (opCode === OpCode.REF_FUNCTION) {
-      const paramCtDecode = decodeVarint(buf, offset);
-      const paramCount = paramCtDecode.value;
-      offset = paramCtDecode.next;
-      for (let i = 0; i < paramCount; i++) {
-        offset = decodeVarint(buf, offset).next; // paramName
-        offset = decodeVarint(buf, offset).next; // paramType
-        let decoCount = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-        for (let d = 0; d < decoCount; d++) {
-          offset = decodeVarint(buf, offset).next; // decoName
-          let argCount = decodeVarint(buf, offset).value;
-          offset = decodeVarint(buf, offset).next;
-          for (let a = 0; a < argCount; a++) {
-            offset = decodeVarint(buf, offset).next;
-          }
-        }
-      }
-      offset = decodeVarint(buf, offset).next; // returnType
-    } else if (opCode === OpCode.REF_CLASS) {
-      const propDecode = decodeVarint(buf, offset);
-      const propCt = propDecode.value;
-      offset = propDecode.next;
-      for (let i = 0; i < propCt; i++) {
-        for (let v = 0; v < 3; v++) offset = decodeVarint(buf, offset).next;
-        let decoCount = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-        for (let d = 0; d < decoCount; d++) {
-          offset = decodeVarint(buf, offset).next;
-          let argCt = decodeVarint(buf, offset).value;
-          offset = decodeVarint(buf, offset).next;
-          for (let a = 0; a < argCt; a++)
-            offset = decodeVarint(buf, offset).next;
-        }
-        let paramCt = decodeVarint(buf, offset).value;
-        offset = decodeVarint(buf, offset).next;
-        for (let p = 0; p < paramCt; p++) {
-          offset = decodeVarint(buf, offset).next;
-          offset = decodeVarint(buf, offset).next;
-          let pd = decodeVarint(buf, offset).value;
-          offset = decodeVarint(buf, offset).next;
-          for (let qp = 0; qp < pd; qp++) {
-            offset = decodeVarint(buf, offset).next;
-            let pq = decodeVarint(buf, offset).value;
-            offset = decodeVarint(buf, offset).next;
-            for (let qr = 0; qr < pq; qr++)
-              offset = decodeVarint(buf, offset).next;
-          }
-        }
-      }
-    }
-    // Generics
-    const genCount = decodeVarint(buf, offset).value;
-    offset = decodeVarint(buf, offset).next;
-    const result: string[] = [];
-    for (let i = 0; i < genCount; i++) {
-      const nameIdx = decodeVarint(buf, offset).value;
-      offset = decodeVarint(buf, offset).next;
-      result.push(Hydrator.store.getStrings()[nameIdx]);
-    }
-    return result;
+  /**
+   * Throws if a template-literal-typed property (`user_${string}`) holds a
+   * value that doesn't match the pattern.
+   */
+  private static checkTemplateLiteral(
+    typeName: string,
+    member: RTTIPropInfo,
+    value: unknown
+  ): void {
+    if (member.type.kind !== "ref") return;
+    const pattern = Hydrator.introspector.getTemplateLiteralPattern(
+      member.type.fqName
+    );
+    if (!pattern) return;
+    if (value === undefined && member.flags & MemberFlags.Optional) return;
+    if (typeof value === "string" && pattern.test(value)) return;
+    throw new Error(
+      `Hydrator: ${typeName}.${member.name} expects a string matching ${
+        pattern.source
+      }, got ${JSON.stringify(value)}${Hydrator.declaredAt(member)}`
+    );
+  }
+
+  /**
+   * Revives JSON-shaped values of builtin-typed properties (ISO strings or
+   * timestamps to Date, entry arrays to Map, arrays to Set); in strict mode
+   * anything else must already be an instance of the builtin.
+   */
+  private static reviveBuiltin(
+    typeName: string,
+    member: RTTIPropInfo,
+    value: unknown,
+    strict: boolean
+  ): unknown {
+    if (member.type.kind !== "ref") return value;
+    const builtin = Hydrator.introspector.getBuiltinType(member.type.fqName);
+    if (!builtin) return value;
+    if (value === undefined && member.flags & MemberFlags.Optional)
+      return value;
+    let revived = value;
+    if (
+      builtin.name === "Date" &&
+      (typeof value === "string" || typeof value === "number")
+    )
+      revived = new Date(value);
+    else if (/^(Readonly)?Map$/.test(builtin.name) && Array.isArray(value))
+      revived = new Map(value);
+    else if (/^(Readonly)?Set$/.test(builtin.name) && Array.isArray(value))
+      revived = new Set(value);
+    const expected = BUILTIN_CONSTRUCTORS[builtin.name];
+    if (!strict || !expected) return revived;
+    if (
+      revived instanceof expected &&
+      !(revived instanceof Date && isNaN(revived.getTime()))
+    )
+      return revived;
+    throw new Error(
+      `Hydrator: ${typeName}.${member.name} expects ${builtin.name}, got ${
+        value === null ? "null" : JSON.stringify(value) ?? typeof value
+      }${Hydrator.declaredAt(member)}`
+    );
+  }
+
+  // " (declared at src/User.ts:12:3)" for error messages, if recorded
+  private static declaredAt(member: RTTIPropInfo): string {
+    return member.location
+      ? ` (declared at ${Introspector.formatLocation(member.location)})`
+      : "";
+  }
+
+  private static decode(entry: IndexEntry): DecodedRTTIEntry {
+    const buf = Hydrator.store.getMetadataBuffer(entry);
+    return decodeRTTIEntry(
+      buf,
+      (idx) => Hydrator.store.getStrings()[idx],
+      Hydrator.store.getVersion()
+    );
   }
 
   static getDecodedMetadata(typeName: string): any | undefined {
@@ -310,7 +286,6 @@ export class Hydrator {
       throw new Error("Hydrator not initialized. Call init() first.");
     const entry = Hydrator.store.getEntryByName(typeName);
     if (!entry) return undefined;
-    const buf = Hydrator.store.getMetadataBuffer(entry);
-    return decodeRTTIEntry(buf, (idx) => Hydrator.store.getStrings()[idx]);
+    return Hydrator.decode(entry);
   }
 }
@@ -1,15 +1,23 @@
 import { decodeRTTIEntry } from "./decoder";
+import { PrimitiveName, rttiTypeRefToString } from "./protocol";
 import { MetadataStore } from "./reader";
 import {
+  BUILTIN_TYPES,
+  MemberFlags,
   OpCodes,
+  PrimitiveTypes,
   type PrimitiveType,
   type RTTIDecorator,
-  type RTTIEnumMetadata,
+  type RTTIEnumMember,
   type RTTIGenericParam,
+  type RTTIHeritage,
+  type RTTIIndexSignature,
+  type RTTIJSDoc,
   type RTTIMetadata,
   type RTTIMethodOverload,
   type RTTIParameter,
   type RTTIPropInfo,
+  type RTTISourceLocation,
   type RTTITypeRef,
 } from "./types";
 
@@ -18,8 +26,33 @@ import {
  */
 export type IntrospectedProp = RTTIPropInfo;
 
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+// Intrinsic string mappings (recorded as generics over their operand): how
+// they map a literal, and what any string they produce looks like
+const STRING_MAPPINGS: Record<
+  string,
+  { apply: (text: string) => string; pattern: string }
+> = {
+  Uppercase: { apply: (text) => text.toUpperCase(), pattern: "[^a-z]*" },
+  Lowercase: { apply: (text) => text.toLowerCase(), pattern: "[^A-Z]*" },
+  Capitalize: {
+    apply: (text) => text.charAt(0).toUpperCase() + text.slice(1),
+    pattern: "(?:[^a-z][\\s\\S]*)?",
+  },
+  Uncapitalize: {
+    apply: (text) => text.charAt(0).toLowerCase() + text.slice(1),
+    pattern: "(?:[^A-Z][\\s\\S]*)?",
+  },
+};
+
 export class Introspector {
   private store: MetadataStore;
+  // Entries built by instantiateTypeRef for nested instantiations
+  // (ListNode<number> from ListNode<T>) that the metadata doesn't contain
+  private instantiations = new Map<string, any>();
 
   constructor(store: MetadataStore) {
     this.store = store;
@@ -40,11 +73,13 @@ export class Introspector {
     const entry = this.store.getEntryByName(typeName);
     if (!entry) return undefined;
     const decoded = this.getEntryDecoded(typeName);
+    // Mapped types only carry props when built with --resolve-mapped
     if (
       !decoded ||
       !(
         decoded.kind === OpCodes.REF_CLASS ||
-        decoded.kind === OpCodes.REF_OBJECT
+        decoded.kind === OpCodes.REF_OBJECT ||
+        decoded.kind === OpCodes.REF_MAPPED
       ) ||
       !decoded.props
     ) {
@@ -59,10 +94,14 @@ export class Introspector {
    */
   getEntryDecoded(typeName: string): any | undefined {
     const entry = this.store.getEntryByName(typeName);
-    if (!entry) return undefined;
+    if (!entry) return this.instantiations.get(typeName);
     const safeGetString = (idx: number) =>
       this.store.getStrings()[idx] ?? "<unknown>";
-    return decodeRTTIEntry(this.store.getMetadataBuffer(entry), safeGetString);
+    return decodeRTTIEntry(
+      this.store.getMetadataBuffer(entry),
+      safeGetString,
+      this.store.getVersion()
+    );
   }
 
   /**
@@ -93,15 +132,601 @@ export class Introspector {
    * For class types, returns base types (extends/implements), as string array.
    */
   getBaseTypes(typeName: string): string[] | undefined {
+    return this.getHeritage(typeName)?.map((b) => b.fqName);
+  }
+
+  /**
+   * Returns heritage clauses with their relation and type arguments,
+   * optionally filtered to "extends" or "implements".
+   */
+  getHeritage(
+    typeName: string,
+    relation?: RTTIHeritage["relation"]
+  ): RTTIHeritage[] | undefined {
     const info = this.getEntryDecoded(typeName);
     if (!info || !Array.isArray(info.bases)) return undefined;
-    return info.bases;
+    const bases: RTTIHeritage[] = info.bases;
+    return relation ? bases.filter((b) => b.relation === relation) : bases;
+  }
+
+  /**
+   * Returns where a type (or one of its members) is declared.
+   */
+  getSourceLocation(
+    typeName: string,
+    memberName?: string
+  ): RTTISourceLocation | undefined {
+    if (memberName === undefined) {
+      return this.getEntryDecoded(typeName)?.location;
+    }
+    const props = this.getTypeProperties(typeName) ?? [];
+    return props.find((p) => p.name === memberName)?.location;
+  }
+
+  /**
+   * Formats a location as `file:line:column`, e.g. "src/User.ts:12:3".
+   */
+  static formatLocation(loc: RTTISourceLocation): string {
+    return `${loc.file}:${loc.line}:${loc.column}`;
+  }
+
+  /**
+   * Returns the JSDoc summary and tags of a type or function.
+   */
+  getJSDoc(typeName: string): RTTIJSDoc | undefined {
+    return this.getEntryDecoded(typeName)?.jsdoc;
+  }
+
+  /**
+   * Returns the JSDoc of a member (property, method, accessor, constructor).
+   * For accessor pairs, the first documented half wins.
+   */
+  getMemberJSDoc(typeName: string, memberName: string): RTTIJSDoc | undefined {
+    const props = this.getTypeProperties(typeName) ?? [];
+    return props.find((p) => p.name === memberName && p.jsdoc)?.jsdoc;
+  }
+
+  /**
+   * Returns the texts of every `@tagName` on a type, or on one of its members.
+   * e.g. getJSDocTags("User", "minLength", "name") -> ["3"]
+   */
+  getJSDocTags(
+    typeName: string,
+    tagName: string,
+    memberName?: string
+  ): string[] {
+    const doc =
+      memberName !== undefined
+        ? this.getMemberJSDoc(typeName, memberName)
+        : this.getJSDoc(typeName);
+    return (doc?.tags ?? [])
+      .filter((tag) => tag.name === tagName)
+      .map((tag) => tag.text);
+  }
+
+  /**
+   * Returns true if the type (or the given member) is tagged `@deprecated`.
+   */
+  isDeprecated(typeName: string, memberName?: string): boolean {
+    const doc =
+      memberName !== undefined
+        ? this.getMemberJSDoc(typeName, memberName)
+        : this.getJSDoc(typeName);
+    return !!doc?.tags.some((tag) => tag.name === "deprecated");
+  }
+
+  /**
+   * For classes/interfaces, returns index signatures ([key: string]: T).
+   */
+  getIndexSignatures(typeName: string): RTTIIndexSignature[] | undefined {
+    const info = this.getEntryDecoded(typeName);
+    if (!info || !Array.isArray(info.indexSignatures)) return undefined;
+    return info.indexSignatures;
+  }
+
+  /**
+   * Returns the index signature whose key type accepts the given key, if any.
+   * Numeric keys match number signatures before string ones.
+   */
+  getIndexSignatureForKey(
+    typeName: string,
+    key: string | number
+  ): RTTIIndexSignature | undefined {
+    const sigs = this.getIndexSignatures(typeName) ?? [];
+    const isNumeric =
+      typeof key === "number" || (key !== "" && !isNaN(Number(key)));
+    const byKey = (type: PrimitiveTypes) =>
+      sigs.find(
+        (s) => s.keyType.kind === "primitive" && s.keyType.type === type
+      );
+    // Pattern keys ([k: `data-${string}`]) are the most specific
+    const byPattern = sigs.find(
+      (s) =>
+        s.keyType.kind === "ref" &&
+        this.matchesTemplateLiteral(s.keyType.fqName, String(key))
+    );
+    return (
+      byPattern ??
+      (isNumeric ? byKey(PrimitiveTypes.Number) : undefined) ??
+      byKey(PrimitiveTypes.String)
+    );
+  }
+
+  /**
+   * Compiles a template literal type (`user_${string}`) to an anchored
+   * RegExp, or returns undefined if the type is not a template literal.
+   */
+  getTemplateLiteralPattern(typeName: string): RegExp | undefined {
+    const info = this.getEntryDecoded(typeName);
+    if (!info || info.kind !== OpCodes.REF_TEMPLATE_LITERAL) return undefined;
+    return new RegExp(`^${this.templatePatternSource(info)}$`);
+  }
+
+  /**
+   * True if `value` is a string matching the template literal type.
+   */
+  matchesTemplateLiteral(typeName: string, value: unknown): boolean {
+    const pattern = this.getTemplateLiteralPattern(typeName);
+    return !!pattern && typeof value === "string" && pattern.test(value);
+  }
+
+  private templatePatternSource(info: {
+    texts: string[];
+    types: RTTITypeRef[];
+  }): string {
+    return info.texts
+      .map((text, i) =>
+        i < info.types.length
+          ? escapeRegExp(text) + this.placeholderPattern(info.types[i]!)
+          : escapeRegExp(text)
+      )
+      .join("");
+  }
+
+  // Regex source for the strings a `${...}` placeholder type accepts
+  private placeholderPattern(ref: RTTITypeRef): string {
+    if (ref.kind === "primitive") {
+      switch (ref.type) {
+        case PrimitiveTypes.Number:
+          return "[+-]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][+-]?\\d+)?";
+        case PrimitiveTypes.BigInt:
+          return "-?\\d+";
+        case PrimitiveTypes.Boolean:
+          return "(?:true|false)";
+        case PrimitiveTypes.Null:
+          return "null";
+        case PrimitiveTypes.Undefined:
+          return "undefined";
+        default:
+          return "[\\s\\S]*";
+      }
+    }
+    if (ref.kind !== "ref") return "[\\s\\S]*";
+    const info = this.getEntryDecoded(ref.fqName);
+    switch (info?.kind) {
+      case OpCodes.REF_LITERAL:
+        return escapeRegExp(String(info.value));
+      case OpCodes.REF_UNION:
+        return `(?:${info.members
+          .map((m: RTTITypeRef) => this.placeholderPattern(m))
+          .join("|")})`;
+      case OpCodes.REF_TEMPLATE_LITERAL:
+        return `(?:${this.templatePatternSource(info)})`;
+      case OpCodes.REF_GENERIC: {
+        const mapping = STRING_MAPPINGS[info.base];
+        return mapping
+          ? this.stringMappingPattern(mapping, info.args[0])
+          : "[\\s\\S]*";
+      }
+      default:
+        return "[\\s\\S]*";
+    }
+  }
+
+  // Mapped literals match exactly; other operands any string the mapping
+  // can produce
+  private stringMappingPattern(
+    mapping: (typeof STRING_MAPPINGS)[string],
+    ref: RTTITypeRef
+  ): string {
+    const info =
+      ref.kind === "ref" ? this.getEntryDecoded(ref.fqName) : undefined;
+    if (info?.kind === OpCodes.REF_LITERAL)
+      return escapeRegExp(mapping.apply(String(info.value)));
+    if (info?.kind === OpCodes.REF_UNION)
+      return `(?:${info.members
+        .map((m: RTTITypeRef) => this.stringMappingPattern(mapping, m))
+        .join("|")})`;
+    return mapping.pattern;
+  }
+
+  /**
+   * For generic instantiations (Box<string, number>, Array<T>, tuples), returns
+   * the generic base fqName and the type arguments it was instantiated with.
+   */
+  getGenericInstantiation(
+    typeName: string
+  ): { base: string; args: RTTITypeRef[] } | undefined {
+    const info = this.getEntryDecoded(typeName);
+    if (!info || info.kind !== OpCodes.REF_GENERIC) return undefined;
+    return { base: info.base, args: info.args };
+  }
+
+  /**
+   * For builtin lib types stored by name (Promise<T>, Map<K, V>, Record<K, V>,
+   * Date, typed arrays; see BUILTIN_TYPES), returns the builtin's name and
+   * type arguments.
+   */
+  getBuiltinType(
+    typeName: string
+  ): { name: string; args: RTTITypeRef[] } | undefined {
+    const inst = this.getGenericInstantiation(typeName);
+    if (!inst || !BUILTIN_TYPES.has(inst.base)) return undefined;
+    return { name: inst.base, args: inst.args };
+  }
+
+  /**
+   * Returns true if the type is a builtin lib type (see getBuiltinType).
+   */
+  isBuiltin(typeName: string): boolean {
+    return !!this.getBuiltinType(typeName);
+  }
+
+  /**
+   * Substitutes type-parameter refs using the given bindings (name -> concrete ref).
+   * With `owner`, only parameters declared by that declaration are bound.
+   * Generic instantiations, unions and intersections are instantiated
+   * recursively (ListNode<T> -> ListNode<number>); the resulting entries can be
+   * looked up like stored ones. Unbound type parameters are returned unchanged.
+   */
+  instantiateTypeRef(
+    ref: RTTITypeRef,
+    bindings: Record<string, RTTITypeRef>,
+    owner?: string,
+    visiting = new Set<string>()
+  ): RTTITypeRef {
+    if (ref.kind === "typeParam") {
+      if (owner && ref.owner && ref.owner !== owner) return ref;
+      return bindings[ref.name] ?? ref;
+    }
+    // Recursive aliases (type Json = ... | Json[]) lead back to themselves
+    if (ref.kind !== "ref" || visiting.has(ref.fqName)) return ref;
+    const info = this.getEntryDecoded(ref.fqName);
+    const key =
+      info?.kind === OpCodes.REF_GENERIC
+        ? "args"
+        : info?.kind === OpCodes.REF_UNION ||
+          info?.kind === OpCodes.REF_INTERSECTION
+        ? "members"
+        : undefined;
+    if (!key) return ref;
+
+    visiting.add(ref.fqName);
+    const refs: RTTITypeRef[] = info[key].map((r: RTTITypeRef) =>
+      this.instantiateTypeRef(r, bindings, owner, visiting)
+    );
+    visiting.delete(ref.fqName);
+    if (refs.every((r, i) => r === info[key][i])) return ref;
+
+    // Named like the extractor names its structural entries
+    const fqName =
+      info.kind === OpCodes.REF_GENERIC
+        ? `${info.base}<${refs.map(rttiTypeRefToString).join(",")}>`
+        : (info.kind === OpCodes.REF_UNION ? "union" : "inter") +
+          "_" +
+          refs.map(rttiTypeRefToString).join("_");
+    if (!this.getEntryDecoded(fqName))
+      this.instantiations.set(fqName, { ...info, [key]: refs });
+    return { kind: "ref", fqName };
+  }
+
+  /**
+   * For a generic instantiation such as Box<string, number>, returns the base type's
+   * properties with their type parameters replaced by the concrete type arguments.
+   */
+  getInstantiatedProperties(typeName: string): RTTIPropInfo[] | undefined {
+    const inst = this.getGenericInstantiation(typeName);
+    if (!inst) return undefined;
+    const props = this.getTypeProperties(inst.base);
+    if (!props) return undefined;
+    const bindings: Record<string, RTTITypeRef> = {};
+    (this.getGenerics(inst.base) ?? []).forEach((g, i) => {
+      if (inst.args[i]) bindings[g.name] = inst.args[i];
+    });
+    const bind = (ref: RTTITypeRef) =>
+      this.instantiateTypeRef(ref, bindings, inst.base);
+    return props.map((p) => ({
+      ...p,
+      type: bind(p.type),
+      parameters: p.parameters?.map((param) => ({
+        ...param,
+        type: bind(param.type),
+      })),
+    }));
+  }
+
+  /**
+   * Evaluates a conditional type for a concrete type argument and returns the
+   * selected branch, with the checked parameter and any `infer` parameters
+   * substituted. Distributive conditionals are applied to each member of a
+   * union argument, so the result holds one entry per distinct branch
+   * (`never` branches are dropped). Returns undefined if the type is not a
+   * conditional, or if a branch can't be decided.
+   *
+   * Assignability is approximate: primitives, literals, template literals,
+   * unions/intersections, arrays/tuples/generics and class/interface
+   * inheritance. Other structural checks are left undecided.
+   */
+  evaluateConditional(
+    typeName: string,
+    checkType: RTTITypeRef
+  ): RTTITypeRef[] | undefined {
+    const info = this.getEntryDecoded(typeName);
+    if (!info || info.kind !== OpCodes.REF_CONDITIONAL) return undefined;
+    const inferNames = (info.inferTypeParams as RTTIGenericParam[]).map(
+      (g) => g.name
+    );
+    // The parameter the argument binds to: the check type itself (T extends
+    // ...) or the one parameter wrapped in it ([T] extends ...)
+    const params = this.collectTypeParams(info.checkType).filter(
+      (p) => !inferNames.includes(p.name)
+    );
+    const names = new Set(params.map((p) => p.name));
+    if (names.size !== 1) return undefined;
+    const param = params[0]!;
+    const inputs: RTTITypeRef[] = info.distributive
+      ? this.flattenUnion(checkType)
+      : [checkType];
+    // The check and `infer` parameters all belong to the conditional's alias
+    const owner = param.owner;
+    const results = new Map<string, RTTITypeRef>();
+    for (const input of inputs) {
+      const bindings: Record<string, RTTITypeRef> = { [param.name]: input };
+      const inferred: Record<string, RTTITypeRef | undefined> = {};
+      for (const name of inferNames) inferred[name] = undefined;
+      const matches = this.isAssignableTo(
+        this.instantiateTypeRef(info.checkType, bindings, owner),
+        this.instantiateTypeRef(info.extendsType, bindings, owner),
+        inferred
+      );
+      if (matches === undefined) return undefined;
+      for (const [name, ref] of Object.entries(inferred))
+        if (ref) bindings[name] = ref;
+      const result = this.instantiateTypeRef(
+        matches ? info.trueType : info.falseType,
+        bindings,
+        owner
+      );
+      // Distribution over a union drops `never` results
+      if (
+        info.distributive &&
+        result.kind === "primitive" &&
+        result.type === PrimitiveTypes.Never
+      )
+        continue;
+      results.set(JSON.stringify(result), result);
+    }
+    return [...results.values()];
+  }
+
+  private flattenUnion(ref: RTTITypeRef): RTTITypeRef[] {
+    if (ref.kind === "primitive" && ref.type === PrimitiveTypes.Never)
+      return [];
+    if (ref.kind !== "ref") return [ref];
+    const info = this.getEntryDecoded(ref.fqName);
+    if (info?.kind !== OpCodes.REF_UNION) return [ref];
+    return info.members.flatMap((m: RTTITypeRef) => this.flattenUnion(m));
+  }
+
+  // Type parameters referenced by a type, through generic arguments and
+  // union/intersection members
+  private collectTypeParams(
+    ref: RTTITypeRef,
+    visiting = new Set<string>()
+  ): Extract<RTTITypeRef, { kind: "typeParam" }>[] {
+    if (ref.kind === "typeParam") return [ref];
+    if (ref.kind !== "ref" || visiting.has(ref.fqName)) return [];
+    visiting.add(ref.fqName);
+    const info = this.getEntryDecoded(ref.fqName);
+    const refs: RTTITypeRef[] =
+      info?.kind === OpCodes.REF_GENERIC
+        ? info.args
+        : info?.kind === OpCodes.REF_UNION ||
+          info?.kind === OpCodes.REF_INTERSECTION
+        ? info.members
+        : [];
+    return refs.flatMap((r) => this.collectTypeParams(r, visiting));
+  }
+
+  // `source extends target`, recording what `infer` positions (the keys of
+  // `inferred`) matched. Undefined when the metadata can't decide it (e.g.
+  // structural object checks)
+  private isAssignableTo(
+    source: RTTITypeRef,
+    target: RTTITypeRef,
+    inferred: Record<string, RTTITypeRef | undefined>
+  ): boolean | undefined {
+    if (target.kind === "typeParam" && target.name in inferred) {
+      const previous = inferred[target.name];
+      // Differing candidates would infer their union, which isn't recorded
+      if (previous && JSON.stringify(previous) !== JSON.stringify(source))
+        return undefined;
+      inferred[target.name] = source;
+      return true;
+    }
+    if (JSON.stringify(source) === JSON.stringify(target)) return true;
+    if (
+      target.kind === "primitive" &&
+      (target.type === PrimitiveTypes.Any ||
+        target.type === PrimitiveTypes.Unknown)
+    )
+      return true;
+    if (source.kind === "primitive" && source.type === PrimitiveTypes.Never)
+      return true;
+    // `any` selects both branches; unbound parameters could be anything
+    if (
+      (source.kind === "primitive" && source.type === PrimitiveTypes.Any) ||
+      source.kind === "typeParam" ||
+      target.kind === "typeParam"
+    )
+      return undefined;
+
+    const sourceInfo =
+      source.kind === "ref" ? this.getEntryDecoded(source.fqName) : undefined;
+    const targetInfo =
+      target.kind === "ref" ? this.getEntryDecoded(target.fqName) : undefined;
+    if (sourceInfo?.kind === OpCodes.REF_UNION)
+      return Introspector.every(sourceInfo.members, (m: RTTITypeRef) =>
+        this.isAssignableTo(m, target, inferred)
+      );
+    if (targetInfo?.kind === OpCodes.REF_UNION)
+      return Introspector.some(targetInfo.members, (m: RTTITypeRef) =>
+        this.isAssignableTo(source, m, inferred)
+      );
+    if (targetInfo?.kind === OpCodes.REF_INTERSECTION)
+      return Introspector.every(targetInfo.members, (m: RTTITypeRef) =>
+        this.isAssignableTo(source, m, inferred)
+      );
+    if (sourceInfo?.kind === OpCodes.REF_INTERSECTION)
+      // No single member matching doesn't rule out the combination
+      return (
+        Introspector.some(sourceInfo.members, (m: RTTITypeRef) =>
+          this.isAssignableTo(m, target, inferred)
+        ) || undefined
+      );
+
+    if (target.kind === "primitive") {
+      if (source.kind === "primitive") return source.type === target.type;
+      switch (sourceInfo?.kind) {
+        case OpCodes.REF_LITERAL:
+          return sourceInfo.type === target.type;
+        case OpCodes.REF_TEMPLATE_LITERAL:
+          return target.type === PrimitiveTypes.String;
+        case OpCodes.REF_GENERIC:
+          return STRING_MAPPINGS[sourceInfo.base]
+            ? target.type === PrimitiveTypes.String
+            : target.type === PrimitiveTypes.Object;
+        case OpCodes.REF_CLASS:
+        case OpCodes.REF_OBJECT:
+        case OpCodes.REF_FUNCTION:
+          return target.type === PrimitiveTypes.Object;
+        default:
+          return undefined;
+      }
+    }
+    if (source.kind === "primitive") {
+      // Primitives (apart from string to templates) never match literals,
+      // tuples, arrays or other generics
+      switch (targetInfo?.kind) {
+        case OpCodes.REF_LITERAL:
+          return false;
+        case OpCodes.REF_GENERIC:
+          return STRING_MAPPINGS[targetInfo.base] &&
+            source.type === PrimitiveTypes.String
+            ? undefined
+            : false;
+        case OpCodes.REF_TEMPLATE_LITERAL:
+          return source.type === PrimitiveTypes.String ? undefined : false;
+        default:
+          return undefined;
+      }
+    }
+    if (source.kind !== "ref" || target.kind !== "ref" || !targetInfo)
+      return undefined;
+
+    switch (targetInfo.kind) {
+      case OpCodes.REF_LITERAL:
+        return sourceInfo?.kind === OpCodes.REF_LITERAL ? false : undefined;
+      case OpCodes.REF_TEMPLATE_LITERAL:
+        return sourceInfo?.kind === OpCodes.REF_LITERAL
+          ? this.matchesTemplateLiteral(target.fqName, sourceInfo.value)
+          : undefined;
+      case OpCodes.REF_GENERIC:
+        return this.isGenericAssignableTo(
+          sourceInfo,
+          targetInfo,
+          inferred
+        );
+      case OpCodes.REF_CLASS:
+      case OpCodes.REF_OBJECT:
+        return sourceInfo?.kind === OpCodes.REF_LITERAL
+          ? undefined
+          : this.isSubclassOf(source.fqName, target.fqName) || undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  // Arrays and tuples compare by element; other generics by base and
+  // arguments when the bases match
+  private isGenericAssignableTo(
+    source: any,
+    target: { base: string; args: RTTITypeRef[] },
+    inferred: Record<string, RTTITypeRef | undefined>
+  ): boolean | undefined {
+    if (source?.kind === OpCodes.REF_LITERAL) return false;
+    if (source?.kind !== OpCodes.REF_GENERIC) return undefined;
+    const arrayLike = (base: string) =>
+      base === "Array" || base === "ReadonlyArray" || base === "Tuple";
+    if (arrayLike(source.base) && arrayLike(target.base)) {
+      if (target.base === "Tuple")
+        return source.base === "Tuple" &&
+          source.args.length === target.args.length
+          ? Introspector.every(source.args as RTTITypeRef[], (arg, i) =>
+              this.isAssignableTo(arg, target.args[i]!, inferred)
+            )
+          : false;
+      // Readonly arrays don't fit mutable ones
+      if (source.base === "ReadonlyArray" && target.base === "Array")
+        return false;
+      return Introspector.every(source.args as RTTITypeRef[], (arg) =>
+        this.isAssignableTo(arg, target.args[0]!, inferred)
+      );
+    }
+    if (source.base !== target.base)
+      return arrayLike(source.base) ||
+        arrayLike(target.base) ||
+        (BUILTIN_TYPES.has(source.base) && BUILTIN_TYPES.has(target.base))
+        ? false
+        : undefined;
+    if (source.args.length !== target.args.length) return undefined;
+    return Introspector.every(source.args as RTTITypeRef[], (arg, i) =>
+      this.isAssignableTo(arg, target.args[i]!, inferred)
+    );
+  }
+
+  // Three-valued every/some: undefined when the outcome hinges on an
+  // undecided check
+  private static every<T>(
+    items: T[],
+    check: (item: T, index: number) => boolean | undefined
+  ): boolean | undefined {
+    let result: boolean | undefined = true;
+    for (const [i, item] of items.entries()) {
+      const matches = check(item, i);
+      if (matches === false) return false;
+      if (matches === undefined) result = undefined;
+    }
+    return result;
+  }
+
+  private static some<T>(
+    items: T[],
+    check: (item: T) => boolean | undefined
+  ): boolean | undefined {
+    let result: boolean | undefined = false;
+    for (const item of items) {
+      const matches = check(item);
+      if (matches === true) return true;
+      if (matches === undefined) result = undefined;
+    }
+    return result;
   }
 
   /**
    * Get the enum value/name pairs for an enum.
    */
-  getEnumMembers(enumName: string): RTTIEnumMetadata[] | undefined {
+  getEnumMembers(enumName: string): RTTIEnumMember[] | undefined {
     const info = this.getEntryDecoded(enumName);
     if (info && info.kind === OpCodes.REF_ENUM && Array.isArray(info.members)) {
       return info.members;
@@ -109,6 +734,47 @@ export class Introspector {
     return undefined;
   }
 
+  /**
+   * Returns the constant value of an enum member, or undefined if the member
+   * is unknown or not constant.
+   */
+  getEnumValue(
+    enumName: string,
+    memberName: string
+  ): string | number | undefined {
+    return this.getEnumMembers(enumName)?.find((m) => m.name === memberName)
+      ?.value;
+  }
+
+  /**
+   * Get the value of a literal type ("A", 42, true, 10n).
+   */
+  getLiteralValue(
+    typeName: string
+  ): string | number | boolean | bigint | undefined {
+    const info = this.getEntryDecoded(typeName);
+    if (info && info.kind === OpCodes.REF_LITERAL) return info.value;
+    return undefined;
+  }
+
+  /**
+   * For a union made only of literals (e.g. "left" | "right"), returns the
+   * set of allowed values. Returns undefined if any member is not a literal.
+   */
+  getLiteralUnionValues(
+    typeName: string
+  ): Array<string | number | boolean | bigint> | undefined {
+    const info = this.getEntryDecoded(typeName);
+    if (!info || info.kind !== OpCodes.REF_UNION) return undefined;
+    const values: Array<string | number | boolean | bigint> = [];
+    for (const member of info.members as RTTITypeRef[]) {
+      if (member.kind !== "ref" || !this.isLiteral(member.fqName))
+        return undefined;
+      values.push(this.getLiteralValue(member.fqName)!);
+    }
+    return values;
+  }
+
   /**
    * Get the OpCode for a registered RTTI entry.
    */
@@ -247,6 +913,28 @@ export class Introspector {
     return undefined;
   }
 
+  /**
+   * Returns the public (overload) signatures of a top-level function.
+   */
+  getFunctionOverloads(funcName: string): RTTIMethodOverload[] | undefined {
+    const info = this.getEntryDecoded(funcName);
+    if (info && info.kind === OpCodes.REF_FUNCTION) {
+      return info.overloads;
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the implementation signature of an overloaded top-level function.
+   */
+  getFunctionImplementation(funcName: string): RTTIMethodOverload | undefined {
+    const info = this.getEntryDecoded(funcName);
+    if (info && info.kind === OpCodes.REF_FUNCTION) {
+      return info.implementation;
+    }
+    return undefined;
+  }
+
   /**
    * Returns all type names of a certain RTTI kind (OpCodes.REF_CLASS, REF_ENUM, etc.)
    */
@@ -297,9 +985,19 @@ export class Introspector {
         info.generics.forEach((g: any) => {
           if (g.constraint) walkTypeRef(g.constraint);
         });
+      if (info.bases)
+        info.bases.forEach((b: RTTIHeritage) =>
+          b.typeArgs.forEach(walkTypeRef)
+        );
       if (info.params)
         info.params.forEach((param: any) => walkTypeRef(param.type));
       if (info.returnType) walkTypeRef(info.returnType);
+      if (info.kind === OpCodes.REF_GENERIC) {
+        // Builtins are their own base (`Date`); there's nothing to walk
+        if (!BUILTIN_TYPES.has(info.base))
+          walkTypeRef({ kind: "ref", fqName: info.base });
+        info.args.forEach(walkTypeRef);
+      }
     };
     const info = this.getEntryDecoded(typeName);
     if (info) walkRTTIMetadata(info);
@@ -365,15 +1063,15 @@ export class Introspector {
       if (t.kind === "primitive") {
         // customize these mappings as you wish
         switch (t.type) {
-          case 1:
+          case PrimitiveTypes.Number:
             res[p.name] = 0;
-            break; // number
-          case 2:
+            break;
+          case PrimitiveTypes.String:
             res[p.name] = "";
-            break; // string
-          case 3 as PrimitiveType:
+            break;
+          case PrimitiveTypes.Boolean:
             res[p.name] = false;
-            break; // boolean
+            break;
           default:
             res[p.name] = null;
             break;
@@ -397,8 +1095,11 @@ export class Introspector {
    * Human-friendly single-line type ref summary. Useful for docs, debug, UI.
    */
   prettyPrintTypeRef(ref: RTTITypeRef): string {
-    if (ref.kind === "primitive") return String(ref.type);
+    if (ref.kind === "primitive")
+      return PrimitiveName[ref.type as PrimitiveTypes] ?? String(ref.type);
     if (ref.kind === "ref") return `[${ref.fqName}]`;
+    if (ref.kind === "typeParam") return `<${ref.name}>`;
+    if (ref.kind === "this") return "this";
     return "<unknown>";
   }
 
@@ -450,6 +1151,13 @@ export class Introspector {
     return this.getTypeOpCode(typeName) === OpCodes.REF_FUNCTION;
   }
 
+  /**
+   * Returns true if the type is a generic instantiation (OpCodes.REF_GENERIC).
+   */
+  isGenericInstance(typeName: string): boolean {
+    return this.getTypeOpCode(typeName) === OpCodes.REF_GENERIC;
+  }
+
   /**
    * Returns true if the type is a union type (OpCodes.REF_UNION).
    */
@@ -464,6 +1172,13 @@ export class Introspector {
     return this.getTypeOpCode(typeName) === OpCodes.REF_INTERSECTION;
   }
 
+  /**
+   * Returns true if the type is a literal type (OpCodes.REF_LITERAL).
+   */
+  isLiteral(typeName: string): boolean {
+    return this.getTypeOpCode(typeName) === OpCodes.REF_LITERAL;
+  }
+
   /**
    * Returns true if the type is a mapped type (OpCodes.REF_MAPPED).
    */
@@ -485,6 +1200,13 @@ export class Introspector {
     return !!typeRef && typeRef.kind === "primitive";
   }
 
+  /**
+   * Returns true if the RTTITypeRef points at a type parameter (RTTITypeRef.kind === 'typeParam').
+   */
+  isTypeParamRef(typeRef: RTTITypeRef): boolean {
+    return !!typeRef && typeRef.kind === "typeParam";
+  }
+
   /**
    * Returns true if the RTTITypeRef is a reference type (RTTITypeRef.kind === 'ref').
    */
@@ -493,14 +1215,45 @@ export class Introspector {
   }
 
   /**
-   * Returns true if your RTTI metadata marks this type as exported.
-   * (You must collect/export this info during RTTI extraction phase.)
+   * Returns true if the declaration is exported (inline or via `export { }`).
    */
   isExported(typeName: string): boolean {
     const decoded = this.getEntryDecoded(typeName);
     return !!decoded && decoded.exported === true;
   }
 
+  /**
+   * Returns true if the declaration is the module's default export.
+   */
+  isDefaultExport(typeName: string): boolean {
+    const decoded = this.getEntryDecoded(typeName);
+    return !!decoded && decoded.defaultExport === true;
+  }
+
+  /**
+   * Returns true if the declaration is ambient (`declare`).
+   */
+  isDeclared(typeName: string): boolean {
+    const decoded = this.getEntryDecoded(typeName);
+    return !!decoded && decoded.declare === true;
+  }
+
+  /**
+   * Returns true if the class is declared `abstract`.
+   */
+  isAbstract(typeName: string): boolean {
+    const decoded = this.getEntryDecoded(typeName);
+    return !!decoded && decoded.abstract === true;
+  }
+
+  /**
+   * Returns true if the enum is a `const enum`.
+   */
+  isConstEnum(typeName: string): boolean {
+    const decoded = this.getEntryDecoded(typeName);
+    return !!decoded && decoded.constEnum === true;
+  }
+
   /**
    * Returns a human-friendly kind string for a type.
    */
@@ -514,7 +1267,7 @@ export class Introspector {
       case OpCodes.REF_FUNCTION:
         return "function";
       case OpCodes.REF_GENERIC:
-        return "generic";
+        return this.isBuiltin(typeName) ? "builtin" : "generic";
       case OpCodes.REF_UNION:
         return "union";
       case OpCodes.REF_INTERSECTION:
@@ -531,6 +1284,12 @@ export class Introspector {
         return "literal";
       case OpCodes.REF_ALIAS:
         return "alias";
+      case OpCodes.REF_TEMPLATE_LITERAL:
+        return "template literal";
+      case OpCodes.REF_KEYOF:
+        return "keyof";
+      case OpCodes.REF_INDEXED_ACCESS:
+        return "indexed access";
       case undefined:
         return "<unknown>";
       default:
@@ -665,18 +1424,49 @@ export class Introspector {
   // === Flag utilities ===
 
   static decodeVisibility(flags: number): "public" | "private" | "protected" {
-    if (flags & (1 << 3)) return "private";
-    if (flags & (1 << 4)) return "protected";
+    if (flags & (MemberFlags.Private | MemberFlags.PrivateName))
+      return "private";
+    if (flags & MemberFlags.Protected) return "protected";
     return "public";
   }
   static isStatic(flags: number): boolean {
-    return (flags & (1 << 0)) !== 0;
+    return (flags & MemberFlags.Static) !== 0;
   }
   static isReadonly(flags: number): boolean {
-    return (flags & (1 << 1)) !== 0;
+    return (flags & MemberFlags.Readonly) !== 0;
   }
   static isOptional(flags: number): boolean {
-    return (flags & (1 << 2)) !== 0;
+    return (flags & MemberFlags.Optional) !== 0;
+  }
+  static isAbstractMember(flags: number): boolean {
+    return (flags & MemberFlags.Abstract) !== 0;
+  }
+  static isAsync(flags: number): boolean {
+    return (flags & MemberFlags.Async) !== 0;
+  }
+  static isGenerator(flags: number): boolean {
+    return (flags & MemberFlags.Generator) !== 0;
+  }
+  static isOverride(flags: number): boolean {
+    return (flags & MemberFlags.Override) !== 0;
+  }
+  /** ES private name (`#x`), as opposed to the TS `private` modifier. */
+  static isPrivateName(flags: number): boolean {
+    return (flags & MemberFlags.PrivateName) !== 0;
+  }
+  /** Declared with the `accessor` keyword. */
+  static isAutoAccessor(flags: number): boolean {
+    return (flags & MemberFlags.Accessor) !== 0;
+  }
+  static isComputed(flags: number): boolean {
+    return (flags & MemberFlags.Computed) !== 0;
+  }
+  static isSymbolKeyed(flags: number): boolean {
+    return (flags & MemberFlags.SymbolKey) !== 0;
+  }
+  /** Field declared by a constructor parameter (`constructor(public x)`). */
+  static isParameterProperty(flags: number): boolean {
+    return (flags & MemberFlags.ParameterProperty) !== 0;
   }
 }
 
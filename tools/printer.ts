@@ -1,13 +1,59 @@
+import { PrimitiveName } from "./protocol";
+
 /**
  * Pretty-prints a decoded RTTIMetadata entry from decodeRTTIEntry.
  */
 function prettyPrintTypeRef(ref: any): string {
   if (!ref) return "<unknown>";
-  if (ref.kind === "primitive") return `#${ref.type}`;
+  if (ref.kind === "primitive")
+    return (
+      PrimitiveName[ref.type as keyof typeof PrimitiveName] ?? `#${ref.type}`
+    );
   if (ref.kind === "ref") return `[${ref.fqName}]`;
+  if (ref.kind === "typeParam") return `<${ref.name}>`;
+  if (ref.kind === "this") return "this";
   return JSON.stringify(ref);
 }
 
+// MemberFlags bit names, in bit order
+const MEMBER_FLAG_NAMES = [
+  "static",
+  "readonly",
+  "optional",
+  "private",
+  "protected",
+  "abstract",
+  "async",
+  "generator",
+  "override",
+  "#private",
+  "accessor",
+  "computed",
+  "symbol",
+  "parameter property",
+];
+
+function prettyPrintMemberFlags(flags: number | undefined): string {
+  const names = MEMBER_FLAG_NAMES.filter((_, bit) => (flags ?? 0) & (1 << bit));
+  return names.length ? ` (${names.join(" ")})` : "";
+}
+
+function prettyPrintLocation(loc: any): string {
+  const at = `${loc.file}:${loc.line}:${loc.column}`;
+  return loc.emitted
+    ? `${at} -> ${loc.emitted.file}:${loc.emitted.line}:${loc.emitted.column}`
+    : at;
+}
+
+function prettyPrintJSDoc(doc: any, indent: string): string {
+  if (!doc) return "";
+  let s = doc.summary ? `${indent}doc: ${doc.summary.split("\n")[0]}\n` : "";
+  for (const tag of doc.tags ?? []) {
+    s += `${indent}@${tag.name}${tag.text ? " " + tag.text : ""}\n`;
+  }
+  return s;
+}
+
 function prettyPrintParameters(params: any[], indent: string): string {
   if (!params || !Array.isArray(params)) return "";
   return params
@@ -23,9 +69,14 @@ function prettyPrintParameters(params: any[], indent: string): string {
               )
               .join(" ")}`
           : "";
-      return `${indent}- ${param.name}: ${prettyPrintTypeRef(
+      // ParameterFlags: 1 optional, 2 rest, 4 has default
+      const flags = param.flags ?? 0;
+      const rest = flags & 2 ? "..." : "";
+      const optional = flags & 1 && !(flags & 4) ? "?" : "";
+      const init = flags & 4 ? ` = ${param.defaultText}` : "";
+      return `${indent}- ${rest}${param.name}${optional}: ${prettyPrintTypeRef(
         param.type
-      )}${deco}`;
+      )}${init}${deco}`;
     })
     .join("\n");
 }
@@ -65,6 +116,15 @@ function prettyPrintMethodOverload(overload: any, indent = "  "): string {
 
 export function prettyPrintRTTIEntry(rtti: any, name: string = ""): string {
   let s = name ? `[${name}]:\n` : "";
+  const modifiers = [
+    rtti.exported && (rtti.defaultExport ? "export default" : "export"),
+    rtti.declare && "declare",
+    rtti.abstract && "abstract",
+    rtti.constEnum && "const",
+  ].filter(Boolean);
+  if (modifiers.length) s += `  modifiers: ${modifiers.join(" ")}\n`;
+  s += prettyPrintJSDoc(rtti.jsdoc, "  ");
+  if (rtti.location) s += `  at: ${prettyPrintLocation(rtti.location)}\n`;
   switch (rtti.kind) {
     case 4: // REF_CLASS
     case 3: // REF_OBJECT
@@ -80,8 +140,25 @@ export function prettyPrintRTTIEntry(rtti: any, name: string = ""): string {
           )
           .join(", ")}>\n`;
       }
-      if (rtti.bases && rtti.bases.length) {
-        s += `  extends: ${rtti.bases.join(", ")}\n`;
+      for (const relation of ["extends", "implements"] as const) {
+        const bases = (rtti.bases || []).filter(
+          (b: any) => b.relation === relation
+        );
+        if (!bases.length) continue;
+        s += `  ${relation}: ${bases
+          .map(
+            (b: any) =>
+              b.fqName +
+              (b.typeArgs.length
+                ? `<${b.typeArgs.map(prettyPrintTypeRef).join(", ")}>`
+                : "")
+          )
+          .join(", ")}\n`;
+      }
+      for (const sig of rtti.indexSignatures || []) {
+        s += `  index: ${sig.readonly ? "readonly " : ""}[${prettyPrintTypeRef(
+          sig.keyType
+        )}]: ${prettyPrintTypeRef(sig.valueType)}\n`;
       }
       if (rtti.decorators?.length) {
         s += `  decorators: ${rtti.decorators
@@ -95,7 +172,8 @@ export function prettyPrintRTTIEntry(rtti: any, name: string = ""): string {
       }
       for (const prop of rtti.props || []) {
         if (prop.kind === "method" || prop.overloads || prop.implementation) {
-          s += `  method: ${prop.name}\n`;
+          s += `  method: ${prop.name}${prettyPrintMemberFlags(prop.flags)}\n`;
+          s += prettyPrintJSDoc(prop.jsdoc, "    ");
           if (prop.decorators?.length) {
             s += `    decorators: ${prop.decorators
               .map(
@@ -119,6 +197,7 @@ export function prettyPrintRTTIEntry(rtti: any, name: string = ""): string {
           }
         } else if (prop.kind === "constructor") {
           s += `  constructor:\n`;
+          s += prettyPrintJSDoc(prop.jsdoc, "    ");
           s += prettyPrintParameters(prop.parameters, "    ") + "\n";
         } else {
           let pDecos = prop.decorators?.length
@@ -131,9 +210,16 @@ export function prettyPrintRTTIEntry(rtti: any, name: string = ""): string {
                 )
                 .join(" ")}`
             : "";
-          s += `  ${prop.kind === "accessor" ? "accessor" : "property"}: ${
-            prop.name
-          }: ${prettyPrintTypeRef(prop.type)}${pDecos}\n`;
+          const label =
+            prop.kind !== "accessor"
+              ? "property"
+              : prop.accessor === "set"
+              ? "setter"
+              : "getter";
+          s += `  ${label}: ${prop.name}: ${prettyPrintTypeRef(
+            prop.type
+          )}${prettyPrintMemberFlags(prop.flags)}${pDecos}\n`;
+          s += prettyPrintJSDoc(prop.jsdoc, "    ");
           if (prop.parameters && prop.parameters.length) {
             s += prettyPrintParameters(prop.parameters, "    ") + "\n";
           }
@@ -153,8 +239,19 @@ export function prettyPrintRTTIEntry(rtti: any, name: string = ""): string {
           )
           .join(", ")}>\n`;
       }
+      if (rtti.construct) s += "  construct: true\n";
       s += `  params:\n${prettyPrintParameters(rtti.params, "    ")}\n`;
       s += `  returns: ${prettyPrintTypeRef(rtti.returnType)}\n`;
+      if (rtti.overloads?.length) {
+        s += `  overloads:\n`;
+        for (const o of rtti.overloads) {
+          s += prettyPrintMethodOverload(o, "    ") + "\n";
+        }
+      }
+      if (rtti.implementation) {
+        s += `  implementation:\n`;
+        s += prettyPrintMethodOverload(rtti.implementation, "    ") + "\n";
+      }
       if (rtti.decorators?.length) {
         s += `  decorators: ${rtti.decorators
           .map(
@@ -180,22 +277,58 @@ export function prettyPrintRTTIEntry(rtti: any, name: string = ""): string {
           .map((ref: any) => `    - ${prettyPrintTypeRef(ref)}`)
           .join("\n") + "\n";
       break;
+    case 1: // PRIMITIVE alias (type Name = string)
+      s += `  type: primitive\n  value: ${prettyPrintTypeRef({
+        kind: "primitive",
+        type: rtti.type,
+      })}\n`;
+      break;
     case 9: // ENUM
       s += `  type: enum\n  members:\n`;
       s +=
         (rtti.members || [])
           .map(
-            (m: { name: any; value: any }) =>
-              `    - ${m.name} = ${JSON.stringify(m.value)}`
+            (m: { name: any; value: any; initializer?: string }) =>
+              `    - ${m.name} = ${
+                m.value === undefined
+                  ? m.initializer ?? "<computed>"
+                  : JSON.stringify(m.value)
+              }`
           )
           .join("\n") + "\n";
       break;
+    case 10: // LITERAL
+      s += `  type: literal\n  value: ${
+        typeof rtti.value === "bigint"
+          ? `${rtti.value}n`
+          : JSON.stringify(rtti.value)
+      }\n`;
+      break;
     case 11: // MAPPED
       s += `  type: mapped\n  key: ${
         rtti.keyName
       } constraint: ${prettyPrintTypeRef(
         rtti.keyConstraint
       )}\n  value: ${prettyPrintTypeRef(rtti.valueType)}\n`;
+      if (rtti.mappedModifiers) {
+        s += `  mapping: ${[
+          rtti.mappedModifiers & 1 && "+readonly",
+          rtti.mappedModifiers & 2 && "-readonly",
+          rtti.mappedModifiers & 4 && "+?",
+          rtti.mappedModifiers & 8 && "-?",
+        ]
+          .filter(Boolean)
+          .join(" ")}\n`;
+      }
+      if (rtti.nameType) s += `  as: ${prettyPrintTypeRef(rtti.nameType)}\n`;
+      if (rtti.sourceType) {
+        s += `  source: ${prettyPrintTypeRef(rtti.sourceType)}\n`;
+      }
+      for (const prop of rtti.props || []) {
+        s += `  property: ${prop.name}: ${prettyPrintTypeRef(
+          prop.type
+        )}${prettyPrintMemberFlags(prop.flags)}\n`;
+      }
       break;
     case 12: // CONDITIONAL
       s += "  type: conditional\n";
@@ -203,6 +336,40 @@ export function prettyPrintRTTIEntry(rtti: any, name: string = ""): string {
       s += `    extends: ${prettyPrintTypeRef(rtti.extendsType)}\n`;
       s += `    true: ${prettyPrintTypeRef(rtti.trueType)}\n`;
       s += `    false: ${prettyPrintTypeRef(rtti.falseType)}\n`;
+      if (rtti.inferTypeParams?.length)
+        s += `    infer: ${rtti.inferTypeParams
+          .map(
+            (g: { name: string; constraint: any }) =>
+              g.name +
+              (g.constraint
+                ? ` extends ${prettyPrintTypeRef(g.constraint)}`
+                : "")
+          )
+          .join(", ")}\n`;
+      s += `    distributive: ${rtti.distributive ? "yes" : "no"}\n`;
+      break;
+    case 14: // TEMPLATE_LITERAL
+      s += `  type: template literal\n  pattern: \`${rtti.texts
+        .map((text: string, i: number) =>
+          i < rtti.types.length
+            ? `${text}\${${prettyPrintTypeRef(rtti.types[i])}}`
+            : text
+        )
+        .join("")}\`\n`;
+      break;
+    case 15: // KEYOF
+      s += `  type: keyof\n  operand: ${prettyPrintTypeRef(rtti.operand)}\n`;
+      if (rtti.keys) {
+        s += `  keys: [${rtti.keys.map(prettyPrintTypeRef).join(", ")}]\n`;
+      }
+      break;
+    case 16: // INDEXED_ACCESS
+      s += `  type: indexed access\n  object: ${prettyPrintTypeRef(
+        rtti.objectType
+      )}\n  index: ${prettyPrintTypeRef(rtti.indexType)}\n`;
+      if (rtti.resolved) {
+        s += `  resolved: ${prettyPrintTypeRef(rtti.resolved)}\n`;
+      }
       break;
     case 6: // GENERIC pointer/alias
       s += `  type: generic/alias\n  base: ${rtti.base}\n  args: [${(
@@ -1,7 +1,44 @@
 import { OpCodes, PrimitiveType, PrimitiveTypes } from "./types";
+import type { RTTIPropInfo, RTTITypeRef } from "./types";
 
 export const META_MAGIC = 0x4d455441; // "META"
-export const PROTOCOL_VERSION = 1;
+
+// Binary layout revisions. Every change to how entries are laid out gets a
+// new version; the decoder reads a file by the version in its header
+export const ProtocolVersion = {
+  Initial: 1,
+  // Function entries: overload signatures and construct flag
+  FunctionOverloads: 2,
+  // Members: overload signatures and implementation
+  MemberOverloads: 3,
+  // Function entries: implementation signature
+  FunctionImplementation: 4,
+  // Members: MemberKind after the flags
+  MemberKinds: 5,
+  // Entries: DeclarationModifiers after the fqName
+  EntryModifiers: 6,
+  // Parameters: ParameterFlags and default value
+  ParameterFlags: 7,
+  // Classes/objects: index signatures after the bases
+  IndexSignatures: 8,
+  // Entries, members and parameters: JSDoc
+  JSDoc: 9,
+  // Entries, members and parameters: source location
+  SourceLocations: 10,
+  // Bases: relation and type arguments
+  HeritageTypeArgs: 11,
+  // Enum members: value tag, float64 numbers, string table values
+  EnumValueTags: 12,
+  // Mapped types: modifiers, `as` clause, source type and resolved props
+  MappedModifiers: 13,
+  // Conditional types: distributivity and `infer` parameters
+  ConditionalInfer: 14,
+  // Primitives: fixed PrimitiveTypes codes instead of ts.TypeFlags
+  PrimitiveCodes: 15,
+  // Type parameter refs: owning declaration after the name
+  TypeParamOwners: 16,
+} as const;
+export const PROTOCOL_VERSION: number = ProtocolVersion.TypeParamOwners;
 export const FEATURE_BITMAP = 0x0001;
 export const HEADER_SIZE = 32;
 export const INDEX_ENTRY_SIZE = 24;
@@ -20,6 +57,9 @@ export const OpCode: Record<keyof typeof OpCodes, number> = {
   REF_MAPPED: OpCodes.REF_MAPPED,
   REF_CONDITIONAL: OpCodes.REF_CONDITIONAL,
   REF_ALIAS: OpCodes.REF_ALIAS,
+  REF_TEMPLATE_LITERAL: OpCodes.REF_TEMPLATE_LITERAL,
+  REF_KEYOF: OpCodes.REF_KEYOF,
+  REF_INDEXED_ACCESS: OpCodes.REF_INDEXED_ACCESS,
 } as const;
 
 export const Primitive: Record<keyof typeof PrimitiveTypes, PrimitiveType> = {
@@ -32,8 +72,98 @@ export const Primitive: Record<keyof typeof PrimitiveTypes, PrimitiveType> = {
   BigInt: PrimitiveTypes.BigInt as PrimitiveType,
   Any: PrimitiveTypes.Any as PrimitiveType,
   Unknown: PrimitiveTypes.Unknown as PrimitiveType,
+  Void: PrimitiveTypes.Void as PrimitiveType,
+  Never: PrimitiveTypes.Never as PrimitiveType,
+  Object: PrimitiveTypes.Object as PrimitiveType,
+} as const;
+
+// Display names for PrimitiveTypes codes
+export const PrimitiveName: Record<PrimitiveTypes, string> = {
+  [PrimitiveTypes.Unknown]: "unknown",
+  [PrimitiveTypes.Number]: "number",
+  [PrimitiveTypes.String]: "string",
+  [PrimitiveTypes.Boolean]: "boolean",
+  [PrimitiveTypes.BigInt]: "bigint",
+  [PrimitiveTypes.Null]: "null",
+  [PrimitiveTypes.Undefined]: "undefined",
+  [PrimitiveTypes.ESSymbol]: "symbol",
+  [PrimitiveTypes.Any]: "any",
+  [PrimitiveTypes.Void]: "void",
+  [PrimitiveTypes.Never]: "never",
+  [PrimitiveTypes.Object]: "object",
+};
+
+// Before PrimitiveCodes, primitives were the ts.TypeFlags bits of TypeScript 5.x
+const TYPE_FLAG_PRIMITIVE_CODES: Partial<Record<number, PrimitiveTypes>> = {
+  1: PrimitiveTypes.Any,
+  2: PrimitiveTypes.Unknown,
+  4: PrimitiveTypes.String,
+  8: PrimitiveTypes.Number,
+  16: PrimitiveTypes.Boolean,
+  64: PrimitiveTypes.BigInt,
+  4096: PrimitiveTypes.ESSymbol,
+  16384: PrimitiveTypes.Void,
+  32768: PrimitiveTypes.Undefined,
+  65536: PrimitiveTypes.Null,
+  131072: PrimitiveTypes.Never,
+  67108864: PrimitiveTypes.Object,
+};
+
+/**
+ * Maps a stored primitive code to PrimitiveTypes for a file of the given
+ * protocol version; unknown codes decode as Unknown.
+ */
+export function decodePrimitiveCode(
+  code: number,
+  version: number = PROTOCOL_VERSION
+): PrimitiveType {
+  if (version >= ProtocolVersion.PrimitiveCodes)
+    return (
+      code in PrimitiveName ? code : PrimitiveTypes.Unknown
+    ) as PrimitiveType;
+  return (TYPE_FLAG_PRIMITIVE_CODES[code] ??
+    PrimitiveTypes.Unknown) as PrimitiveType;
+}
+
+// Member kind codes, written after each class/interface member's flags
+export const MemberKind = {
+  Property: 0,
+  Method: 1,
+  Getter: 2,
+  Setter: 3,
+  Constructor: 4,
 } as const;
 
+export function encodeMemberKind(prop: RTTIPropInfo): number {
+  switch (prop.kind) {
+    case "method":
+      return MemberKind.Method;
+    case "accessor":
+      return prop.accessor === "set" ? MemberKind.Setter : MemberKind.Getter;
+    case "constructor":
+      return MemberKind.Constructor;
+    default:
+      return MemberKind.Property;
+  }
+}
+
+export function decodeMemberKind(
+  code: number
+): Pick<RTTIPropInfo, "kind" | "accessor"> {
+  switch (code) {
+    case MemberKind.Method:
+      return { kind: "method" };
+    case MemberKind.Getter:
+      return { kind: "accessor", accessor: "get" };
+    case MemberKind.Setter:
+      return { kind: "accessor", accessor: "set" };
+    case MemberKind.Constructor:
+      return { kind: "constructor" };
+    default:
+      return { kind: "property" };
+  }
+}
+
 export interface ProtocolHeader {
   magic: number;
   version: number;
@@ -76,6 +206,17 @@ export class StringTable {
   }
 }
 
+// Content key of a type ref, used to name structural entries (Array<T>, unions)
+export function rttiTypeRefToString(ref: RTTITypeRef): string {
+  if (ref.kind === "primitive")
+    return PrimitiveName[ref.type as PrimitiveTypes];
+  // Qualified by the owner so `Array<T>` of unrelated declarations differ
+  if (ref.kind === "typeParam")
+    return ref.owner ? `${ref.owner}.${ref.name}` : ref.name;
+  if (ref.kind === "this") return "this";
+  return ref.fqName;
+}
+
 export function fnv1aHash(str: string): number {
   let hash = 0x811c9dc5;
   for (let i = 0; i < str.length; i++) {
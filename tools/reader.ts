@@ -12,6 +12,14 @@ export interface MetadataHeader {
   heapSize: number;
 }
 
+export interface MetadataStoreOptions {
+  /**
+   * Resolve short names ("User") to module-qualified entries ('"src/User".User')
+   * when the short name is unique. Defaults to true.
+   */
+  shortNameAliases?: boolean;
+}
+
 /**
  * Loads and queries RTTI metadata.bin at runtime.
  */
@@ -20,6 +28,12 @@ export class MetadataStore {
   private strings: string[] = [];
   private index: IndexEntry[] = [];
   private heap: Uint8Array = new Uint8Array(0);
+  private aliases = new Map<string, IndexEntry[]>();
+  private options: MetadataStoreOptions;
+
+  constructor(options: MetadataStoreOptions = {}) {
+    this.options = { shortNameAliases: true, ...options };
+  }
 
   async load(filePath: string): Promise<void> {
     const buf = fs.readFileSync(filePath);
@@ -60,12 +74,49 @@ export class MetadataStore {
         dataLength: indexBuf.readUInt32LE(i + 16),
       });
     }
+
+    if (this.options.shortNameAliases) {
+      for (const entry of this.index) {
+        const short = MetadataStore.getShortName(
+          this.strings[entry.stringOffset] ?? ""
+        );
+        const list = this.aliases.get(short) ?? [];
+        list.push(entry);
+        this.aliases.set(short, list);
+      }
+    }
+  }
+
+  /**
+   * Strips the module qualifier: '"src/User".User' -> "User".
+   */
+  static getShortName(fqName: string): string {
+    return fqName.replace(/^".*?"\./, "");
   }
 
+  /**
+   * Looks up an entry by fqName, falling back to the short-name alias index.
+   * Returns undefined if a short name matches entries in more than one module;
+   * use getFqNamesByShortName to list them.
+   */
   getEntryByName(name: string): IndexEntry | undefined {
     const idx = this.strings.indexOf(name);
-    if (idx === -1) return undefined;
-    return this.index.find((e) => e.stringOffset === idx);
+    const exact =
+      idx === -1 ? undefined : this.index.find((e) => e.stringOffset === idx);
+    if (exact || !this.options.shortNameAliases) return exact;
+
+    const candidates = this.aliases.get(name) ?? [];
+    return candidates.length === 1 ? candidates[0] : undefined;
+  }
+
+  /**
+   * Returns every fqName registered under the given short name; more than one
+   * means the short name is ambiguous.
+   */
+  getFqNamesByShortName(name: string): string[] {
+    return (this.aliases.get(name) ?? []).map(
+      (e) => this.strings[e.stringOffset]!
+    );
   }
 
   getEntryByHash(hash: number): IndexEntry | undefined {
@@ -83,7 +134,11 @@ export class MetadataStore {
     const entry = this.getEntryByName(name);
     if (!entry) return undefined;
     const buf = this.getMetadataBuffer(entry);
-    return decodeRTTIEntry(buf, (idx) => this.getStrings()[idx]);
+    return decodeRTTIEntry(
+      buf,
+      (idx) => this.getStrings()[idx],
+      this.getVersion()
+    );
   }
 
   listTypes(): string[] {
@@ -95,4 +150,12 @@ export class MetadataStore {
   getStrings(): string[] {
     return this.strings;
   }
+
+  /**
+   * Protocol version from the file header (decodeRTTIEntry needs it for
+   * files written by older compilers).
+   */
+  getVersion(): number {
+    return this.header.version;
+  }
 }
@@ -0,0 +1,149 @@
+import { describe, expect, it } from "@jest/globals";
+import path from "path";
+import ts from "typescript";
+import {
+  DEFAULT_MAX_TYPE_DEPTH,
+  extractTypeNodeRTTI,
+  extractTypeRTTI,
+  type RTTIExtractContext,
+} from "./extractor";
+import { OpCodes, PrimitiveTypes, type RTTITypeRef } from "./types";
+
+const FIXTURE = path.resolve("src/Recursive.ts");
+const OPTIONS: ts.CompilerOptions = {
+  strict: true,
+  target: ts.ScriptTarget.ESNext,
+};
+
+// Extracts the named declarations of a file the way the compiler does:
+// interfaces by their type, aliases from their written type
+function extract(
+  fileName: string,
+  names: string[],
+  host?: ts.CompilerHost
+): { refs: Record<string, RTTITypeRef>; context: RTTIExtractContext } {
+  const program = ts.createProgram([fileName], OPTIONS, host);
+  const typeChecker = program.getTypeChecker();
+  const context: RTTIExtractContext = {
+    typeChecker,
+    rttiMap: new Map(),
+    visiting: new Map(),
+    typeDepth: 0,
+  };
+  const refs: Record<string, RTTITypeRef> = {};
+  for (const stmt of program.getSourceFile(fileName)!.statements) {
+    if (ts.isInterfaceDeclaration(stmt) && names.includes(stmt.name.text))
+      refs[stmt.name.text] = extractTypeRTTI(
+        typeChecker.getTypeAtLocation(stmt.name),
+        context
+      );
+    if (ts.isTypeAliasDeclaration(stmt) && names.includes(stmt.name.text))
+      refs[stmt.name.text] = extractTypeNodeRTTI(stmt.type, context);
+  }
+  return { refs, context };
+}
+
+function data(context: RTTIExtractContext, fqName: string): any {
+  const meta = context.rttiMap.get(fqName);
+  expect(meta).toBeDefined();
+  return meta!.data;
+}
+
+const ref = (fqName: string) => ({ kind: "ref" as const, fqName });
+
+describe("recursive types", () => {
+  const { refs, context } = extract(FIXTURE, [
+    "TreeNode",
+    "ListNode",
+    "Json",
+    "JsonValue",
+  ]);
+
+  it("resolves self-referencing arrays to the interface", () => {
+    expect(refs.TreeNode).toEqual(ref('"src/Recursive".TreeNode'));
+    const children = data(context, '"src/Recursive".TreeNode').props.find(
+      (p: { name: string }) => p.name === "children"
+    );
+    expect(children.type).toEqual(ref('Array<"src/Recursive".TreeNode>'));
+    expect(data(context, 'Array<"src/Recursive".TreeNode>')).toEqual({
+      base: "Array",
+      args: [ref('"src/Recursive".TreeNode')],
+    });
+  });
+
+  it("resolves nullable self-references to a union with the interface", () => {
+    const next = data(context, '"src/Recursive".ListNode').props.find(
+      (p: { name: string }) => p.name === "next"
+    );
+    const union = data(context, (next.type as { fqName: string }).fqName);
+    expect(union.members).toHaveLength(2);
+    expect(union.members).toContainEqual({
+      kind: "primitive",
+      type: PrimitiveTypes.Null,
+    });
+    expect(union.members).toContainEqual(ref('"src/Recursive".ListNode'));
+  });
+
+  it("lets recursive aliases refer back to themselves", () => {
+    const json = ref('"src/Recursive".Json');
+    expect(refs.Json).toEqual(json);
+    const members: RTTITypeRef[] = data(context, json.fqName).members;
+    expect(members).toContainEqual(ref('Array<"src/Recursive".Json>'));
+    expect(data(context, 'Array<"src/Recursive".Json>').args).toEqual([json]);
+    const object = members.find(
+      (m) =>
+        m.kind === "ref" &&
+        context.rttiMap.get(m.fqName)?.kind === OpCodes.REF_OBJECT
+    );
+    expect(object).toBeDefined();
+    expect(
+      data(context, (object as { fqName: string }).fqName).indexSignatures[0]
+        .valueType
+    ).toEqual(json);
+  });
+
+  it("lets mutually recursive aliases refer to each other", () => {
+    const jsonValue = ref('"src/Recursive".JsonValue');
+    expect(refs.JsonValue).toEqual(jsonValue);
+    const members: RTTITypeRef[] = data(context, jsonValue.fqName).members;
+    expect(members).toContainEqual(ref('"src/Recursive".JsonObject'));
+    expect(members).toContainEqual(ref('Array<"src/Recursive".JsonValue>'));
+    expect(
+      data(context, '"src/Recursive".JsonObject').indexSignatures[0].valueType
+    ).toEqual(jsonValue);
+  });
+});
+
+describe("type depth limit", () => {
+  // { a: { a: ... number ... } }, nested past the limit
+  const levels = DEFAULT_MAX_TYPE_DEPTH + 8;
+  const fileName = path.resolve("deep-fixture.ts");
+  const source = `export type Deep = ${"{ a: ".repeat(
+    levels
+  )}number${" }".repeat(levels)};`;
+  const host = ts.createCompilerHost(OPTIONS);
+  const { getSourceFile, fileExists, readFile } = host;
+  host.getSourceFile = (name, ...rest) =>
+    name === fileName
+      ? ts.createSourceFile(name, source, ts.ScriptTarget.ESNext)
+      : getSourceFile.call(host, name, ...rest);
+  host.fileExists = (name) => name === fileName || fileExists.call(host, name);
+  host.readFile = (name) =>
+    name === fileName ? source : readFile.call(host, name);
+
+  it(`cuts the walk off after ${DEFAULT_MAX_TYPE_DEPTH} levels`, () => {
+    const { refs, context } = extract(fileName, ["Deep"], host);
+    let depth = 0;
+    let current = refs.Deep!;
+    while (current.kind === "ref") {
+      depth++;
+      current = data(context, current.fqName).props[0].type;
+    }
+    expect(depth).toBe(DEFAULT_MAX_TYPE_DEPTH);
+    expect(current).toEqual({
+      kind: "primitive",
+      type: PrimitiveTypes.Unknown,
+    });
+    expect(context.typeDepth).toBe(0);
+  });
+});
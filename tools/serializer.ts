@@ -1,4 +1,5 @@
 import {
+  encodeMemberKind,
   encodeVarint,
   fnv1aHash,
   IndexEntry,
@@ -6,11 +7,25 @@ import {
   StringTable,
 } from "./protocol";
 import {
+  ParameterFlags,
+  PrimitiveTypes,
   RTTIConditionalMetadata,
   RTTIDecorator,
+  RTTIEnumMember,
+  RTTIGenericMetadata,
+  RTTIHeritage,
+  RTTIIndexedAccessMetadata,
+  RTTIIndexSignature,
+  RTTIJSDoc,
+  RTTIKeyofMetadata,
+  RTTILiteralMetadata,
   RTTIMappedMetadata,
   RTTIMetadata,
   RTTIMethodOverload,
+  RTTIParameter,
+  RTTIPropInfo,
+  RTTISourceLocation,
+  RTTITemplateLiteralMetadata,
   RTTITypeRef,
   RTTIUnionMetadata,
 } from "./types";
@@ -22,6 +37,14 @@ function serializeRTTITypeRef(
 ): Uint8Array[] {
   if (ref.kind === "primitive") {
     return [encodeVarint(0), encodeVarint(ref.type)];
+  } else if (ref.kind === "typeParam") {
+    return [
+      encodeVarint(2),
+      encodeVarint(stringTable.add(ref.name)),
+      encodeVarint(stringTable.add(ref.owner ?? "")),
+    ];
+  } else if (ref.kind === "this") {
+    return [encodeVarint(3)];
   } else {
     return [encodeVarint(1), encodeVarint(stringTable.add(ref.fqName))];
   }
@@ -45,6 +68,74 @@ function serializeDecoratorList(
   return out;
 }
 
+// ----- JSDoc Serializer -----
+function serializeJSDoc(
+  doc: RTTIJSDoc | undefined,
+  stringTable: StringTable
+): Uint8Array[] {
+  if (!doc) return [new Uint8Array([0])];
+  const out: Uint8Array[] = [new Uint8Array([1])];
+  out.push(encodeVarint(stringTable.add(doc.summary)));
+  out.push(encodeVarint(doc.tags.length));
+  for (const tag of doc.tags) {
+    out.push(encodeVarint(stringTable.add(tag.name)));
+    out.push(encodeVarint(stringTable.add(tag.text)));
+  }
+  return out;
+}
+
+// ----- Source Location Serializer -----
+function serializeLocation(
+  loc: RTTISourceLocation | undefined,
+  stringTable: StringTable
+): Uint8Array[] {
+  if (!loc) return [new Uint8Array([0])];
+  const out: Uint8Array[] = [new Uint8Array([1])];
+  out.push(encodeVarint(stringTable.add(loc.file)));
+  out.push(encodeVarint(loc.line), encodeVarint(loc.column));
+  if (loc.emitted) {
+    out.push(new Uint8Array([1]));
+    out.push(encodeVarint(stringTable.add(loc.emitted.file)));
+    out.push(encodeVarint(loc.emitted.line), encodeVarint(loc.emitted.column));
+  } else {
+    out.push(new Uint8Array([0]));
+  }
+  return out;
+}
+
+// ----- Parameter Serializer -----
+function serializeParameter(
+  param: RTTIParameter,
+  stringTable: StringTable
+): Uint8Array[] {
+  const out: Uint8Array[] = [encodeVarint(stringTable.add(param.name))];
+  out.push(...serializeRTTITypeRef(param.type, stringTable));
+  out.push(...serializeDecoratorList(param.decorators ?? [], stringTable));
+  out.push(...serializeJSDoc(param.jsdoc, stringTable));
+  out.push(...serializeLocation(param.location, stringTable));
+  const flags = param.flags ?? 0;
+  out.push(encodeVarint(flags));
+  if (flags & ParameterFlags.HasDefault) {
+    out.push(encodeVarint(stringTable.add(param.defaultText ?? "")));
+    // Constant default value: 0 none, 1 string, 2 number, 3 boolean, 4 null
+    const value = param.defaultValue;
+    if (typeof value === "string") {
+      out.push(encodeVarint(1), encodeVarint(stringTable.add(value)));
+    } else if (typeof value === "number") {
+      const num = new Uint8Array(8);
+      new DataView(num.buffer).setFloat64(0, value, true);
+      out.push(encodeVarint(2), num);
+    } else if (typeof value === "boolean") {
+      out.push(encodeVarint(3), new Uint8Array([value ? 1 : 0]));
+    } else if (value === null) {
+      out.push(encodeVarint(4));
+    } else {
+      out.push(encodeVarint(0));
+    }
+  }
+  return out;
+}
+
 // ----- Method Overload Serializer -----
 function serializeMethodOverload(
   overload: RTTIMethodOverload,
@@ -54,10 +145,7 @@ function serializeMethodOverload(
   // Params
   buf.push(encodeVarint(overload.params.length));
   for (const param of overload.params) {
-    const paramNameIdx = stringTable.add(param.name);
-    buf.push(encodeVarint(paramNameIdx));
-    buf.push(...serializeRTTITypeRef(param.type, stringTable));
-    buf.push(...serializeDecoratorList(param.decorators, stringTable));
+    buf.push(...serializeParameter(param, stringTable));
   }
   // Return type
   buf.push(...serializeRTTITypeRef(overload.returnType, stringTable));
@@ -66,6 +154,41 @@ function serializeMethodOverload(
   return buf;
 }
 
+// ----- Class/interface member -----
+function serializeProp(
+  prop: RTTIPropInfo,
+  stringTable: StringTable
+): Uint8Array[] {
+  const out: Uint8Array[] = [encodeVarint(stringTable.add(prop.name))];
+  out.push(...serializeRTTITypeRef(prop.type, stringTable));
+  out.push(encodeVarint(prop.flags ?? 0));
+  out.push(encodeVarint(encodeMemberKind(prop)));
+  out.push(...serializeJSDoc(prop.jsdoc, stringTable));
+  out.push(...serializeLocation(prop.location, stringTable));
+  out.push(...serializeDecoratorList(prop.decorators ?? [], stringTable));
+
+  // Parameters (methods, accessors, ctors)
+  const parameters = prop.parameters ?? [];
+  out.push(encodeVarint(parameters.length));
+  for (const param of parameters) {
+    out.push(...serializeParameter(param, stringTable));
+  }
+
+  // Overload signatures, then the implementation (if any)
+  const overloads = prop.overloads ?? [];
+  out.push(encodeVarint(overloads.length));
+  for (const overload of overloads) {
+    out.push(...serializeMethodOverload(overload, stringTable));
+  }
+  if (prop.implementation) {
+    out.push(new Uint8Array([1]));
+    out.push(...serializeMethodOverload(prop.implementation, stringTable));
+  } else {
+    out.push(new Uint8Array([0]));
+  }
+  return out;
+}
+
 function concatUint8Arrays(arrays: Uint8Array[]): Uint8Array {
   const total = arrays.reduce((sum, a) => sum + a.length, 0);
   const out = new Uint8Array(total);
@@ -105,63 +228,38 @@ export class RTTISerializer {
     chunks.push(new Uint8Array([meta.kind]));
     // Always write fqName string index as varint
     chunks.push(encodeVarint(this.stringTable.getOffset(meta.fqName) ?? 0));
+    // Declaration modifiers (DeclarationModifiers bitmask)
+    chunks.push(encodeVarint(meta.modifiers ?? 0));
+    chunks.push(...serializeJSDoc(meta.jsdoc, this.stringTable));
+    chunks.push(...serializeLocation(meta.location, this.stringTable));
 
     // ----- PRIMITIVE -----
     if (meta.kind === OpCode.REF_PRIMITIVE) {
       chunks.push(encodeVarint(meta.data as number));
     }
 
+    // ----- LITERAL -----
+    if (meta.kind === OpCode.REF_LITERAL) {
+      const { type, value } = meta.data as RTTILiteralMetadata["data"];
+      chunks.push(encodeVarint(type));
+      if (type === PrimitiveTypes.Number) {
+        const valBuf = new Uint8Array(8);
+        new DataView(valBuf.buffer).setFloat64(0, value as number, true);
+        chunks.push(valBuf);
+      } else if (type === PrimitiveTypes.Boolean) {
+        chunks.push(new Uint8Array([value ? 1 : 0]));
+      } else {
+        // String and BigInt (base-10 text) literals live in the string table
+        chunks.push(encodeVarint(this.stringTable.add(String(value))));
+      }
+    }
+
     // ----- CLASS/INTERFACE -----
     if (meta.kind === OpCode.REF_CLASS || meta.kind === OpCode.REF_OBJECT) {
-      const props: any[] = (meta.data as any).props ?? [];
+      const props: RTTIPropInfo[] = (meta.data as any).props ?? [];
       chunks.push(encodeVarint(props.length));
       for (const prop of props) {
-        const nameIdx = this.stringTable.add(prop.name);
-        chunks.push(encodeVarint(nameIdx));
-
-        // RTTITypeRef!
-        chunks.push(...serializeRTTITypeRef(prop.type, this.stringTable));
-
-        chunks.push(encodeVarint(prop.flags ?? 0));
-
-        // Member decorators
-        const memberDecos: { name: string; args: string[] }[] =
-          prop.decorators ?? [];
-        chunks.push(encodeVarint(memberDecos.length));
-        for (const deco of memberDecos) {
-          const decoNameIdx = this.stringTable.add(deco.name);
-          chunks.push(encodeVarint(decoNameIdx));
-          chunks.push(encodeVarint(deco.args.length));
-          for (const arg of deco.args) {
-            const argIdx = this.stringTable.add(arg);
-            chunks.push(encodeVarint(argIdx));
-          }
-        }
-
-        // Parameters
-        if (prop.parameters && Array.isArray(prop.parameters)) {
-          chunks.push(encodeVarint(prop.parameters.length));
-          for (const param of prop.parameters) {
-            const paramNameIdx = this.stringTable.add(param.name);
-            chunks.push(encodeVarint(paramNameIdx));
-            chunks.push(...serializeRTTITypeRef(param.type, this.stringTable));
-
-            const paramDecos: { name: string; args: string[] }[] =
-              param.decorators ?? [];
-            chunks.push(encodeVarint(paramDecos.length));
-            for (const pDeco of paramDecos) {
-              const pDecoNameIdx = this.stringTable.add(pDeco.name);
-              chunks.push(encodeVarint(pDecoNameIdx));
-              chunks.push(encodeVarint(pDeco.args.length));
-              for (const arg of pDeco.args) {
-                const argIdx = this.stringTable.add(arg);
-                chunks.push(encodeVarint(argIdx));
-              }
-            }
-          }
-        } else {
-          chunks.push(encodeVarint(0));
-        }
+        chunks.push(...serializeProp(prop, this.stringTable));
       }
 
       // Generics
@@ -195,37 +293,44 @@ export class RTTISerializer {
         });
       }
 
-      // Inheritance (bases)
-      const bases: string[] = (meta.data as any).bases ?? [];
+      // Inheritance (bases): fqName, relation (0 extends, 1 implements),
+      // then the type arguments
+      const bases: RTTIHeritage[] = (meta.data as any).bases ?? [];
       chunks.push(encodeVarint(bases.length));
       for (const b of bases) {
-        const idx = this.stringTable.add(b);
-        chunks.push(encodeVarint(idx));
+        chunks.push(encodeVarint(this.stringTable.add(b.fqName)));
+        chunks.push(new Uint8Array([b.relation === "implements" ? 1 : 0]));
+        chunks.push(encodeVarint(b.typeArgs.length));
+        for (const arg of b.typeArgs) {
+          chunks.push(...serializeRTTITypeRef(arg, this.stringTable));
+        }
+      }
+
+      // Index signatures
+      const indexSignatures: RTTIIndexSignature[] =
+        (meta.data as any).indexSignatures ?? [];
+      chunks.push(encodeVarint(indexSignatures.length));
+      for (const sig of indexSignatures) {
+        chunks.push(...serializeRTTITypeRef(sig.keyType, this.stringTable));
+        chunks.push(...serializeRTTITypeRef(sig.valueType, this.stringTable));
+        chunks.push(new Uint8Array([sig.readonly ? 1 : 0]));
       }
     }
 
     // ----- FUNCTION -----
     if (meta.kind === OpCode.REF_FUNCTION) {
-      const { params, returnType, generics, decorators } = meta.data as any;
+      const {
+        params,
+        returnType,
+        generics,
+        decorators,
+        overloads,
+        construct,
+        implementation,
+      } = meta.data as any;
       chunks.push(encodeVarint(params.length));
       for (const param of params) {
-        const nameIdx = this.stringTable.add(param.name);
-        chunks.push(encodeVarint(nameIdx));
-
-        chunks.push(...serializeRTTITypeRef(param.type, this.stringTable));
-
-        const paramDecos: { name: string; args: string[] }[] =
-          param.decorators ?? [];
-        chunks.push(encodeVarint(paramDecos.length));
-        for (const deco of paramDecos) {
-          const decoNameIdx = this.stringTable.add(deco.name);
-          chunks.push(encodeVarint(decoNameIdx));
-          chunks.push(encodeVarint(deco.args.length));
-          for (const arg of deco.args) {
-            const argIdx = this.stringTable.add(arg);
-            chunks.push(encodeVarint(argIdx));
-          }
-        }
+        chunks.push(...serializeParameter(param, this.stringTable));
       }
       // Return type
       chunks.push(...serializeRTTITypeRef(returnType, this.stringTable));
@@ -257,25 +362,44 @@ export class RTTISerializer {
           chunks.push(encodeVarint(argIdx));
         });
       }
+
+      // Overloaded signatures, then construct flag
+      const ovls: RTTIMethodOverload[] = overloads ?? [];
+      chunks.push(encodeVarint(ovls.length));
+      for (const overload of ovls) {
+        chunks.push(...serializeMethodOverload(overload, this.stringTable));
+      }
+      chunks.push(new Uint8Array([construct ? 1 : 0]));
+      if (implementation) {
+        chunks.push(new Uint8Array([1]));
+        chunks.push(
+          ...serializeMethodOverload(implementation, this.stringTable)
+        );
+      } else {
+        chunks.push(new Uint8Array([0]));
+      }
     }
 
     // ----- ENUM -----
     if (meta.kind === OpCode.REF_ENUM) {
-      const members: { name: string; value: string | number }[] =
-        (meta.data as any).members ?? [];
+      // Per member: name, then a value tag: 0 string idx, 1 float64 LE,
+      // 2 non-constant + initializer text idx
+      const members: RTTIEnumMember[] = (meta.data as any).members ?? [];
       chunks.push(encodeVarint(members.length));
       for (const m of members) {
         const nameIdx = this.stringTable.add(m.name);
         chunks.push(encodeVarint(nameIdx));
-        if (typeof m.value === "number") {
-          chunks.push(new Uint8Array([0xff]));
-          const valBuf = new Uint8Array(4);
-          new DataView(valBuf.buffer).setInt32(0, m.value, true);
+        if (typeof m.value === "string") {
+          chunks.push(encodeVarint(0));
+          chunks.push(encodeVarint(this.stringTable.add(m.value)));
+        } else if (typeof m.value === "number") {
+          chunks.push(encodeVarint(1));
+          const valBuf = new Uint8Array(8);
+          new DataView(valBuf.buffer).setFloat64(0, m.value, true);
           chunks.push(valBuf);
         } else {
-          const strBytes = new TextEncoder().encode(String(m.value));
-          chunks.push(encodeVarint(strBytes.length));
-          chunks.push(strBytes);
+          chunks.push(encodeVarint(2));
+          chunks.push(encodeVarint(this.stringTable.add(m.initializer ?? "")));
         }
       }
     }
@@ -294,8 +418,15 @@ export class RTTISerializer {
     }
 
     if (meta.kind === OpCode.REF_MAPPED) {
-      const { keyName, keyConstraint, valueType } =
-        meta.data as RTTIMappedMetadata["data"];
+      const {
+        keyName,
+        keyConstraint,
+        valueType,
+        mappedModifiers,
+        nameType,
+        sourceType,
+        props,
+      } = meta.data as RTTIMappedMetadata["data"];
       const keyNameIdx = this.stringTable.add(keyName);
       chunks.push(encodeVarint(keyNameIdx));
       // keyConstraint RTTITypeRef (maybe null)
@@ -306,22 +437,101 @@ export class RTTISerializer {
         chunks.push(new Uint8Array([0]));
       }
       chunks.push(...serializeRTTITypeRef(valueType, this.stringTable));
+      chunks.push(encodeVarint(mappedModifiers ?? 0));
+      // Optional parts: presence byte, then the ref
+      for (const ref of [nameType, sourceType]) {
+        if (ref) {
+          chunks.push(new Uint8Array([1]));
+          chunks.push(...serializeRTTITypeRef(ref, this.stringTable));
+        } else {
+          chunks.push(new Uint8Array([0]));
+        }
+      }
+      // Resolved props (--resolve-mapped): presence byte, count, props
+      if (props) {
+        chunks.push(new Uint8Array([1]), encodeVarint(props.length));
+        for (const prop of props) {
+          chunks.push(...serializeProp(prop, this.stringTable));
+        }
+      } else {
+        chunks.push(new Uint8Array([0]));
+      }
     }
 
     if (meta.kind === OpCode.REF_CONDITIONAL) {
-      const { checkType, extendsType, trueType, falseType } =
-        meta.data as RTTIConditionalMetadata["data"];
+      const {
+        checkType,
+        extendsType,
+        trueType,
+        falseType,
+        inferTypeParams,
+        distributive,
+      } = meta.data as RTTIConditionalMetadata["data"];
       chunks.push(...serializeRTTITypeRef(checkType, this.stringTable));
       chunks.push(...serializeRTTITypeRef(extendsType, this.stringTable));
       chunks.push(...serializeRTTITypeRef(trueType, this.stringTable));
       chunks.push(...serializeRTTITypeRef(falseType, this.stringTable));
+      chunks.push(new Uint8Array([distributive ? 1 : 0]));
+      // infer declarations, encoded like generics
+      chunks.push(encodeVarint(inferTypeParams.length));
+      for (const inferParam of inferTypeParams) {
+        chunks.push(encodeVarint(this.stringTable.add(inferParam.name)));
+        if (inferParam.constraint) {
+          chunks.push(new Uint8Array([1]));
+          chunks.push(
+            ...serializeRTTITypeRef(inferParam.constraint, this.stringTable)
+          );
+        } else {
+          chunks.push(new Uint8Array([0]));
+        }
+      }
+    }
+
+    // Template literals: span count, head text, then (type ref, text) per span
+    if (meta.kind === OpCode.REF_TEMPLATE_LITERAL) {
+      const { texts, types } = meta.data as RTTITemplateLiteralMetadata["data"];
+      chunks.push(encodeVarint(types.length));
+      chunks.push(encodeVarint(this.stringTable.add(texts[0] ?? "")));
+      types.forEach((ref, i) => {
+        chunks.push(...serializeRTTITypeRef(ref, this.stringTable));
+        chunks.push(encodeVarint(this.stringTable.add(texts[i + 1] ?? "")));
+      });
+    }
+
+    // keyof: operand ref, then presence byte + resolved key refs
+    if (meta.kind === OpCode.REF_KEYOF) {
+      const { operand, keys } = meta.data as RTTIKeyofMetadata["data"];
+      chunks.push(...serializeRTTITypeRef(operand, this.stringTable));
+      if (keys) {
+        chunks.push(new Uint8Array([1]));
+        chunks.push(encodeVarint(keys.length));
+        for (const key of keys) {
+          chunks.push(...serializeRTTITypeRef(key, this.stringTable));
+        }
+      } else {
+        chunks.push(new Uint8Array([0]));
+      }
+    }
+
+    // T[K]: object ref, index ref, then presence byte + resolved ref
+    if (meta.kind === OpCode.REF_INDEXED_ACCESS) {
+      const { objectType, indexType, resolved } =
+        meta.data as RTTIIndexedAccessMetadata["data"];
+      chunks.push(...serializeRTTITypeRef(objectType, this.stringTable));
+      chunks.push(...serializeRTTITypeRef(indexType, this.stringTable));
+      if (resolved) {
+        chunks.push(new Uint8Array([1]));
+        chunks.push(...serializeRTTITypeRef(resolved, this.stringTable));
+      } else {
+        chunks.push(new Uint8Array([0]));
+      }
     }
 
-    // Optionally, your alias/generic "pointer" nodes
-    if (meta.kind === OpCode.REF_GENERIC && (meta.data as any).base) {
-      const baseIdx = this.stringTable.add((meta.data as any).base);
+    // Generic instantiations: base fqName + type argument refs
+    if (meta.kind === OpCode.REF_GENERIC) {
+      const { base, args } = meta.data as RTTIGenericMetadata["data"];
+      const baseIdx = this.stringTable.add(base);
       chunks.push(encodeVarint(baseIdx));
-      const args: RTTITypeRef[] = (meta.data as any).args || [];
       chunks.push(encodeVarint(args.length));
       for (const arg of args) {
         chunks.push(...serializeRTTITypeRef(arg, this.stringTable));
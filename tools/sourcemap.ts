@@ -0,0 +1,130 @@
+import path from "path";
+
+/**
+ * Minimal source map (v3) reader: decodes the VLQ `mappings` field and answers
+ * "where did this TS position end up in the emitted JS".
+ */
+
+export interface RawSourceMap {
+  version: number;
+  file: string;
+  sourceRoot?: string;
+  sources: string[];
+  mappings: string;
+}
+
+export interface MappingSegment {
+  generatedLine: number; // 0-based
+  generatedColumn: number; // 0-based
+  sourceIndex: number;
+  originalLine: number; // 0-based
+  originalColumn: number; // 0-based
+}
+
+const BASE64 =
+  "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+function decodeVLQ(str: string, pos: number): { value: number; next: number } {
+  let result = 0;
+  let shift = 0;
+  let digit: number;
+  do {
+    digit = BASE64.indexOf(str.charAt(pos++));
+    if (digit === -1) throw new Error(`Invalid VLQ character at ${pos - 1}`);
+    result += (digit & 31) << shift;
+    shift += 5;
+  } while (digit & 32);
+  const negative = result & 1;
+  result >>>= 1;
+  return { value: negative ? -result : result, next: pos };
+}
+
+export function decodeMappings(mappings: string): MappingSegment[] {
+  const segments: MappingSegment[] = [];
+  let sourceIndex = 0;
+  let originalLine = 0;
+  let originalColumn = 0;
+  let line = 0;
+  for (const group of mappings.split(";")) {
+    let generatedColumn = 0;
+    for (const segment of group.split(",")) {
+      if (!segment) continue;
+      const fields: number[] = [];
+      let pos = 0;
+      while (pos < segment.length) {
+        const dec = decodeVLQ(segment, pos);
+        fields.push(dec.value);
+        pos = dec.next;
+      }
+      generatedColumn += fields[0] ?? 0;
+      // 1-field segments carry no original position
+      if (fields.length < 4) continue;
+      sourceIndex += fields[1]!;
+      originalLine += fields[2]!;
+      originalColumn += fields[3]!;
+      segments.push({
+        generatedLine: line,
+        generatedColumn,
+        sourceIndex,
+        originalLine,
+        originalColumn,
+      });
+    }
+    line++;
+  }
+  return segments;
+}
+
+/**
+ * Reverse lookups from original source positions to emitted JS positions,
+ * across every source map of a build.
+ */
+export class SourceMapIndex {
+  // absolute source path -> emitted file + segments for that source
+  private bySource = new Map<
+    string,
+    { generatedFile: string; segments: MappingSegment[] }
+  >();
+
+  /**
+   * @param mapFile absolute path the map was (or would be) written to
+   */
+  add(mapFile: string, map: RawSourceMap): void {
+    const dir = path.dirname(mapFile);
+    const generatedFile = path.resolve(dir, map.file);
+    const segments = decodeMappings(map.mappings);
+    map.sources.forEach((source, i) => {
+      const absolute = path.resolve(dir, map.sourceRoot ?? "", source);
+      this.bySource.set(absolute, {
+        generatedFile,
+        segments: segments.filter((s) => s.sourceIndex === i),
+      });
+    });
+  }
+
+  /**
+   * Emitted position for a 1-based line/column in `sourceFile`: the closest
+   * mapping at or before the column on that line, else the line's first one.
+   */
+  generatedPositionFor(
+    sourceFile: string,
+    line: number,
+    column: number
+  ): { file: string; line: number; column: number } | undefined {
+    const entry = this.bySource.get(path.resolve(sourceFile));
+    if (!entry) return undefined;
+    const onLine = entry.segments.filter((s) => s.originalLine === line - 1);
+    if (onLine.length === 0) return undefined;
+    let best: MappingSegment | undefined;
+    for (const s of onLine) {
+      if (s.originalColumn > column - 1) continue;
+      if (!best || s.originalColumn >= best.originalColumn) best = s;
+    }
+    best ??= onLine[0]!;
+    return {
+      file: entry.generatedFile,
+      line: best.generatedLine + 1,
+      column: best.generatedColumn + 1,
+    };
+  }
+}
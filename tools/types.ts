@@ -1,29 +1,68 @@
-import ts from "typescript";
 declare const __brand: unique symbol;
 type Brand<T, K extends string> = T & { [__brand]: K };
 
+// Protocol-level primitive codes. Fixed by the binary format (not tied to
+// ts.TypeFlags); the extractor translates checker flags into these
 export enum PrimitiveTypes {
-  Number = ts.TypeFlags.Number,
-  String = ts.TypeFlags.String,
-  Boolean = ts.TypeFlags.Boolean,
-  Null = ts.TypeFlags.Null,
-  Undefined = ts.TypeFlags.Undefined,
-  ESSymbol = ts.TypeFlags.ESSymbol,
-  BigInt = ts.TypeFlags.BigInt,
-  Any = ts.TypeFlags.Any,
-  Unknown = ts.TypeFlags.Unknown,
-}
-
-type PrimitiveTypeFlag =
+  Unknown = 0,
+  Number = 1,
+  String = 2,
+  Boolean = 3,
+  BigInt = 4,
+  Null = 5,
+  Undefined = 6,
+  ESSymbol = 7,
+  Any = 8,
+  Void = 9,
+  Never = 10,
+  // The `object` keyword (any non-primitive)
+  Object = 11,
+}
+
+type PrimitiveTypeCode =
+  | PrimitiveTypes.Unknown
   | PrimitiveTypes.Number
   | PrimitiveTypes.String
   | PrimitiveTypes.Boolean
+  | PrimitiveTypes.BigInt
   | PrimitiveTypes.Null
   | PrimitiveTypes.Undefined
   | PrimitiveTypes.ESSymbol
-  | PrimitiveTypes.BigInt
   | PrimitiveTypes.Any
-  | PrimitiveTypes.Unknown;
+  | PrimitiveTypes.Void
+  | PrimitiveTypes.Never
+  | PrimitiveTypes.Object;
+
+// Well-known lib types stored as compact REF_GENERIC entries (base = the name)
+// instead of walking their lib.d.ts declarations; the value is how many type
+// arguments are kept (typed arrays drop their buffer parameter)
+export const BUILTIN_TYPES: ReadonlyMap<string, number> = new Map([
+  ["Promise", 1],
+  ["Map", 2],
+  ["Set", 1],
+  ["WeakMap", 2],
+  ["WeakSet", 1],
+  ["ReadonlyMap", 2],
+  ["ReadonlySet", 1],
+  ["ReadonlyArray", 1],
+  ["Record", 2],
+  ["Date", 0],
+  ["RegExp", 0],
+  ["Error", 0],
+  ["ArrayBuffer", 0],
+  ["DataView", 0],
+  ["Int8Array", 0],
+  ["Uint8Array", 0],
+  ["Uint8ClampedArray", 0],
+  ["Int16Array", 0],
+  ["Uint16Array", 0],
+  ["Int32Array", 0],
+  ["Uint32Array", 0],
+  ["Float32Array", 0],
+  ["Float64Array", 0],
+  ["BigInt64Array", 0],
+  ["BigUint64Array", 0],
+]);
 
 export enum OpCodes {
   REF_PRIMITIVE = 1,
@@ -39,13 +78,63 @@ export enum OpCodes {
   REF_MAPPED = 11,
   REF_CONDITIONAL = 12,
   REF_ALIAS = 13,
+  REF_TEMPLATE_LITERAL = 14,
+  REF_KEYOF = 15,
+  REF_INDEXED_ACCESS = 16,
 }
 
-export type PrimitiveType = Brand<PrimitiveTypeFlag, "PrimitiveType">;
+// Top-level declaration modifiers, stored as a bitmask on every entry
+export enum DeclarationModifiers {
+  None = 0,
+  Exported = 1 << 0,
+  DefaultExport = 1 << 1,
+  Declare = 1 << 2,
+  Abstract = 1 << 3,
+  ConstEnum = 1 << 4,
+}
+
+// Per-member flags (RTTIPropInfo.flags). Bit layout:
+//   0 static        5 abstract     10 `accessor` auto-accessor
+//   1 readonly      6 async        11 computed key (`[expr]`)
+//   2 optional      7 generator    12 symbol key (`[Symbol.iterator]`)
+//   3 private       8 override     13 constructor parameter property
+//   4 protected     9 ES private name (`#x`)
+export enum MemberFlags {
+  None = 0,
+  Static = 1 << 0,
+  Readonly = 1 << 1,
+  Optional = 1 << 2,
+  Private = 1 << 3,
+  Protected = 1 << 4,
+  Abstract = 1 << 5,
+  Async = 1 << 6,
+  Generator = 1 << 7,
+  Override = 1 << 8,
+  PrivateName = 1 << 9,
+  Accessor = 1 << 10,
+  Computed = 1 << 11,
+  SymbolKey = 1 << 12,
+  ParameterProperty = 1 << 13,
+}
+
+// Per-parameter flags (RTTIParameter.flags)
+export enum ParameterFlags {
+  None = 0,
+  Optional = 1 << 0,
+  Rest = 1 << 1,
+  HasDefault = 1 << 2,
+}
+
+export type PrimitiveType = Brand<PrimitiveTypeCode, "PrimitiveType">;
 
 export type RTTITypeRef =
   | { kind: "primitive"; type: PrimitiveType }
-  | { kind: "ref"; fqName: string };
+  | { kind: "ref"; fqName: string }
+  // A type parameter, matched by RTTIGenericParam.name of the declaration whose
+  // fqName is `owner` (absent in files from older compilers)
+  | { kind: "typeParam"; name: string; owner?: string }
+  // Polymorphic `this` of the enclosing class/interface, e.g. `scale(): this`
+  | { kind: "this" };
 
 // --- DECORATOR/GENERIC BASE ---
 export interface RTTIDecorator {
@@ -58,10 +147,33 @@ export interface RTTIGenericParam {
 }
 
 // --- PARAMS & PROPERTIES ---
+// Documentation comment: summary text plus block tags (@deprecated, @param, ...)
+export interface RTTIJSDoc {
+  summary: string;
+  tags: { name: string; text: string }[];
+}
+
+// Where a declaration lives (1-based line/column, project-relative file);
+// `emitted` points at the compiled JS when built with source maps
+export interface RTTISourceLocation {
+  file: string;
+  line: number;
+  column: number;
+  emitted?: { file: string; line: number; column: number };
+}
+
 export interface RTTIParameter {
   name: string;
   type: RTTITypeRef;
   decorators: RTTIDecorator[];
+  jsdoc?: RTTIJSDoc;
+  location?: RTTISourceLocation;
+  // ParameterFlags bitmask
+  flags?: number;
+  // Source text of the default initializer, e.g. "[]" or "Mode.Read"
+  defaultText?: string;
+  // Evaluated default, when the initializer is a constant literal
+  defaultValue?: string | number | boolean | null;
 }
 
 export interface RTTIPropInfo {
@@ -70,6 +182,10 @@ export interface RTTIPropInfo {
   flags: number;
   decorators: RTTIDecorator[];
   kind?: "property" | "method" | "accessor" | "constructor";
+  // Which half of an accessor pair this entry is (kind === "accessor")
+  accessor?: "get" | "set";
+  jsdoc?: RTTIJSDoc;
+  location?: RTTISourceLocation;
   overloads?: RTTIMethodOverload[];
   implementation?: RTTIMethodOverload;
   parameters?: RTTIParameter[];
@@ -89,10 +205,25 @@ export interface RTTIClassMetadata {
     props: Array<RTTIPropInfo>;
     generics: RTTIGenericParam[];
     decorators: RTTIDecorator[];
-    bases: string[];
+    bases: RTTIHeritage[];
+    indexSignatures?: RTTIIndexSignature[];
   };
 }
 
+// class A extends Base<string> implements I
+export interface RTTIHeritage {
+  fqName: string;
+  relation: "extends" | "implements";
+  typeArgs: RTTITypeRef[];
+}
+
+// [key: string]: number, readonly [i: number]: T, [k: `data-${string}`]: ...
+export interface RTTIIndexSignature {
+  keyType: RTTITypeRef;
+  valueType: RTTITypeRef;
+  readonly: boolean;
+}
+
 export interface RTTIFunctionMetadata {
   fqName: string;
   kind: OpCodes.REF_FUNCTION;
@@ -101,6 +232,13 @@ export interface RTTIFunctionMetadata {
     returnType: RTTITypeRef;
     generics: RTTIGenericParam[];
     decorators?: RTTIDecorator[];
+    // Public signatures: bodiless overload declarations, or every call
+    // signature when a function type has more than one
+    overloads?: RTTIMethodOverload[];
+    // The declaration with a body, when the function is overloaded
+    implementation?: RTTIMethodOverload;
+    // Construct signatures (new (...) => T) rather than call signatures
+    construct?: boolean;
   };
 }
 
@@ -110,11 +248,41 @@ export interface RTTIPrimitiveMetadata {
   data: PrimitiveType;
 }
 
+export interface RTTILiteralMetadata {
+  fqName: string;
+  kind: OpCodes.REF_LITERAL;
+  data: {
+    // Widened primitive of the literal (string/number/boolean/bigint)
+    type: PrimitiveType;
+    // BigInt literals are kept as their base-10 text (JSON-safe for the cache);
+    // `unique symbol` literals (type ESSymbol) by their declaration's fqName
+    value: string | number | boolean;
+  };
+}
+
 export interface RTTIEnumMetadata {
   fqName: string;
   kind: OpCodes.REF_ENUM;
   data: {
-    members: Array<{ name: string; value: string | number }>;
+    members: RTTIEnumMember[];
+  };
+}
+
+export interface RTTIEnumMember {
+  name: string;
+  // Constant value from the checker; undefined for non-constant members
+  value: string | number | undefined;
+  // Source text of a non-constant initializer, e.g. `"abc".length`
+  initializer?: string;
+}
+
+export interface RTTIGenericMetadata {
+  fqName: string;
+  kind: OpCodes.REF_GENERIC;
+  data: {
+    // fqName of the generic declaration ("Array", "Tuple" or a user type)
+    base: string;
+    args: RTTITypeRef[];
   };
 }
 
@@ -138,12 +306,30 @@ export interface RTTIMappedMetadata {
   fqName: string;
   kind: OpCodes.REF_MAPPED;
   data: {
+    // The mapped type parameter, e.g. "P" in { [P in keyof T]: T[P] }
     keyName: string;
     keyConstraint: RTTITypeRef | null;
     valueType: RTTITypeRef;
+    // MappedModifiers bitmask
+    mappedModifiers: number;
+    // Key remapping clause: { [K in keyof T as `get${K}`]: ... }
+    nameType?: RTTITypeRef;
+    // Homomorphic source whose modifiers are kept, e.g. Point in Readonly<Point>
+    sourceType?: RTTITypeRef;
+    // Resolved properties (only with --resolve-mapped)
+    props?: RTTIPropInfo[];
   };
 }
 
+// `readonly` / `?` on a mapped type, with their +/- forms
+export enum MappedModifiers {
+  None = 0,
+  IncludeReadonly = 1 << 0, // readonly, +readonly
+  ExcludeReadonly = 1 << 1, // -readonly
+  IncludeOptional = 1 << 2, // ?, +?
+  ExcludeOptional = 1 << 3, // -?
+}
+
 export interface RTTIConditionalMetadata {
   fqName: string;
   kind: OpCodes.REF_CONDITIONAL;
@@ -152,6 +338,42 @@ export interface RTTIConditionalMetadata {
     extendsType: RTTITypeRef;
     trueType: RTTITypeRef;
     falseType: RTTITypeRef;
+    // `infer U` declarations in the extends clause, in source order
+    inferTypeParams: RTTIGenericParam[];
+    // A naked type parameter check: unions are mapped member by member
+    distributive: boolean;
+  };
+}
+
+// `user_${string}`: texts has one more entry than types; they interleave
+// as texts[0] types[0] texts[1] ... texts[n]
+export interface RTTITemplateLiteralMetadata {
+  fqName: string;
+  kind: OpCodes.REF_TEMPLATE_LITERAL;
+  data: {
+    texts: string[];
+    types: RTTITypeRef[];
+  };
+}
+
+// keyof T; keys are the resolved key types when the checker can compute them
+export interface RTTIKeyofMetadata {
+  fqName: string;
+  kind: OpCodes.REF_KEYOF;
+  data: {
+    operand: RTTITypeRef;
+    keys?: RTTITypeRef[];
+  };
+}
+
+// T[K]; resolved is the accessed type when the checker can compute it
+export interface RTTIIndexedAccessMetadata {
+  fqName: string;
+  kind: OpCodes.REF_INDEXED_ACCESS;
+  data: {
+    objectType: RTTITypeRef;
+    indexType: RTTITypeRef;
+    resolved?: RTTITypeRef;
   };
 }
 
@@ -172,12 +394,23 @@ export type MetadataCache = {
   types: Record<string, TypeCacheEntry>;
 };
 
-export type RTTIMetadata =
+export type RTTIMetadata = (
   | RTTIClassMetadata
   | RTTIFunctionMetadata
   | RTTIPrimitiveMetadata
+  | RTTILiteralMetadata
   | RTTIEnumMetadata
+  | RTTIGenericMetadata
   | RTTIUnionMetadata
   | RTTIIntersectionMetadata
   | RTTIMappedMetadata
-  | RTTIConditionalMetadata;
+  | RTTIConditionalMetadata
+  | RTTITemplateLiteralMetadata
+  | RTTIKeyofMetadata
+  | RTTIIndexedAccessMetadata
+) & {
+  // DeclarationModifiers bitmask; only set on top-level declarations
+  modifiers?: number;
+  jsdoc?: RTTIJSDoc;
+  location?: RTTISourceLocation;
+};